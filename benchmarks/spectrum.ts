@@ -0,0 +1,113 @@
+/**
+ * Benchmark: dense vs sparse spectrum computation
+ * Memory and time of the Laplacian + top-K eigenvalues as graphs grow
+ *
+ * Run with: npm run bench
+ */
+
+import { setFlagsFromString } from 'v8';
+import { runInNewContext } from 'vm';
+import { ProteinHasher } from '../src';
+import {
+  WeightedEdge,
+  sparseLaplacian,
+  csrToDense,
+  topEigenvalues,
+  lanczosTopEigenvalues
+} from '../src/spectral';
+
+const EIGENVALUE_COUNT = 5;
+const DENSE_MAX_NODES = 400; // Jacobi is O(n^3) per sweep - skip beyond this
+const MEASURE_RUNS = 3;
+
+// AST-shaped graph: a tree whose fan-out varies like real syntax trees
+function syntheticTree(n: number): WeightedEdge[] {
+  const edges: WeightedEdge[] = [];
+  for (let i = 1; i < n; i++) {
+    const parent = i % 3 === 0 ? Math.floor(i / 4) : i - 1;
+    edges.push({ from: parent, to: i, weight: 1 });
+  }
+  return edges;
+}
+
+function syntheticSource(lines: number): string {
+  const body: string[] = [];
+  for (let i = 0; i < lines; i++) {
+    body.push(i % 5 === 0
+      ? `  if (x > ${i}) { total += x * ${i}; }`
+      : `  const v${i} = total - ${i} / (x + 1);`);
+  }
+  return `function generated(x) {\n  let total = 0;\n${body.join('\n')}\n  return total;\n}`;
+}
+
+function time<T>(fn: () => T): { value: T; ms: number } {
+  const start = process.hrtime.bigint();
+  const value = fn();
+  return { value, ms: Number(process.hrtime.bigint() - start) / 1e6 };
+}
+
+// Expose gc() without a node flag, so each solve starts from a collected heap
+setFlagsFromString('--expose-gc');
+const collect: () => void = runInNewContext('gc');
+
+function heapAndBuffers(): number {
+  const usage = process.memoryUsage();
+  return usage.heapUsed + usage.arrayBuffers;
+}
+
+/**
+ * Time a solve and measure the heap and array-buffer memory it allocates:
+ * the growth from a collected heap to the end of the solve, before anything
+ * it allocated (matrices, Krylov basis) can be collected. If V8 collects
+ * mid-solve the figure is a lower bound. Median of MEASURE_RUNS runs.
+ */
+function measure<T>(fn: () => T): { value: T; ms: number; bytes: number } {
+  const runs: Array<{ value: T; ms: number; bytes: number }> = [];
+  for (let i = 0; i < MEASURE_RUNS; i++) {
+    collect();
+    const before = heapAndBuffers();
+    const run = time(fn);
+    runs.push({ ...run, bytes: Math.max(heapAndBuffers() - before, 0) });
+  }
+  const median = (values: number[]) => values.sort((a, b) => a - b)[Math.floor(values.length / 2)];
+  return { value: runs[0].value, ms: median(runs.map(r => r.ms)), bytes: median(runs.map(r => r.bytes)) };
+}
+
+const mb = (bytes: number) => (bytes / 1024 / 1024).toFixed(2).padStart(10);
+const ms = (value: number) => value.toFixed(1).padStart(9);
+
+// Warm up both paths, so compiling them is not counted as solver memory
+topEigenvalues(csrToDense(sparseLaplacian(50, syntheticTree(50))), EIGENVALUE_COUNT);
+lanczosTopEigenvalues(sparseLaplacian(50, syntheticTree(50)), EIGENVALUE_COUNT);
+
+console.log('📐 Laplacian spectrum: dense (Jacobi) vs sparse (CSR + Lanczos)');
+console.log('   MB: measured heap + array-buffer growth during each solve\n');
+console.log('    nodes |   dense MB |  sparse MB |  dense ms | sparse ms');
+console.log('-'.repeat(60));
+
+for (const n of [50, 100, 200, 400, 1000, 5000, 20000]) {
+  const edges = syntheticTree(n);
+  const sparse = measure(() => lanczosTopEigenvalues(sparseLaplacian(n, edges), EIGENVALUE_COUNT));
+  
+  const skip = '      skip';
+  let denseMb = skip;
+  let denseMs = skip.slice(1);
+  if (n <= DENSE_MAX_NODES) {
+    const dense = measure(() => topEigenvalues(csrToDense(sparseLaplacian(n, edges)), EIGENVALUE_COUNT));
+    denseMb = mb(dense.bytes);
+    denseMs = ms(dense.ms);
+  }
+  
+  console.log(`${String(n).padStart(9)} | ${denseMb} | ${mb(sparse.bytes)} | ${denseMs} | ${ms(sparse.ms)}`);
+}
+
+console.log('\n🧬 End-to-end computeHash (advanced analysis off)\n');
+console.log('    lines |    nodes |       ms');
+console.log('-'.repeat(32));
+
+const hasher = new ProteinHasher({ enableAdvancedAnalysis: false });
+for (const lines of [100, 1000, 5000]) {
+  const code = syntheticSource(lines);
+  const run = time(() => hasher.computeHash(code));
+  console.log(`${String(lines).padStart(9)} | ${String(run.value.nodes).padStart(8)} | ${ms(run.ms)}`);
+}
@@ -0,0 +1,179 @@
+/**
+ * 🏭 Batch Hashing - Many files across a worker_threads pool
+ *
+ * Each worker owns a ProteinHasher and takes the next input as soon as it
+ * is free. Results are streamed through onResult as they complete and
+ * returned in input order; a failing input yields an error entry instead
+ * of failing the whole batch.
+ */
+
+import { availableParallelism } from 'os';
+import { extname, join } from 'path';
+import { Worker } from 'worker_threads';
+import { ProteinHasherOptions, ProteinHashResult } from './protein-hasher';
+import { resolveConfig } from './config';
+import { isCustomWeightProfile } from './weight-profiles';
+import * as errors from './errors';
+import type { WorkerReply, WorkerError } from './hash-worker';
+
+/**
+ * Source text, or a file the worker reads itself (parsed by its extension)
+ */
+export type BatchInput = string | { path: string };
+
+export interface BatchResult {
+  index: number;               // Position in the input array
+  result?: ProteinHashResult;  // Set on success
+  error?: Error;               // Set on failure
+}
+
+export interface HashManyOptions extends ProteinHasherOptions {
+  concurrency?: number;        // Worker count (default: available CPUs)
+  signal?: AbortSignal;        // Terminates the pool and rejects with signal.reason
+  onResult?: (result: BatchResult) => void;  // Called in completion order
+}
+
+/**
+ * Hash many sources in parallel worker threads. `program` cannot cross
+ * thread boundaries; pass `tsconfig` for type-aware batches. Invalid
+ * options reject the returned promise.
+ */
+export async function hashMany(inputs: BatchInput[], options: HashManyOptions = {}): Promise<BatchResult[]> {
+  const { concurrency = availableParallelism(), signal, onResult, ...hasherOptions } = options;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`concurrency must be a positive integer, got ${concurrency}`);
+  }
+  if (hasherOptions.program) {
+    throw new Error('hashMany cannot share a ts.Program with worker threads; pass tsconfig instead');
+  }
+  if (isCustomWeightProfile(hasherOptions.weightProfile)) {
+    throw new Error('hashMany cannot pass a custom weight profile to worker threads; use a built-in profile name');
+  }
+  // Fail fast on bad options instead of once per input inside the workers
+  resolveConfig(hasherOptions);
+  
+  return new Promise((resolvePromise, reject) => {
+    const results: BatchResult[] = new Array(inputs.length);
+    const busy = new Map<Worker, number>();  // Worker -> index of its current input
+    let next = 0;
+    let completed = 0;
+    let settled = false;
+    
+    const finish = (error?: unknown) => {
+      if (settled) return;
+      settled = true;
+      signal?.removeEventListener('abort', abort);
+      for (const worker of busy.keys()) {
+        void worker.terminate();
+      }
+      busy.clear();
+      if (error === undefined) {
+        resolvePromise(results);
+      } else {
+        reject(error);
+      }
+    };
+    const abort = () => finish(signal!.reason);
+    
+    const record = (result: BatchResult) => {
+      results[result.index] = result;
+      completed++;
+      try {
+        onResult?.(result);
+      } catch (error) {
+        finish(error);
+        return;
+      }
+      if (completed === inputs.length) finish();
+    };
+    
+    const spawn = () => {
+      const worker = startWorker(hasherOptions);
+      let crash: Error | undefined;
+      
+      const feed = () => {
+        if (settled) return;
+        if (next < inputs.length) {
+          const index = next++;
+          busy.set(worker, index);
+          worker.postMessage({ index, input: inputs[index] });
+        } else {
+          busy.delete(worker);
+          void worker.terminate();
+        }
+      };
+      
+      worker.on('message', (reply: WorkerReply) => {
+        record('result' in reply
+          ? { index: reply.index, result: reply.result }
+          : { index: reply.index, error: reviveError(reply.error) });
+        feed();
+      });
+      worker.on('error', error => {
+        crash = error;
+      });
+      worker.on('exit', code => {
+        // A thread that dies mid-job fails that job; a fresh one takes over
+        const index = busy.get(worker);
+        if (settled || index === undefined) return;
+        busy.delete(worker);
+        record({ index, error: crash ?? new Error(`Hash worker exited with code ${code}`) });
+        if (!settled && next < inputs.length) spawn();
+      });
+      
+      feed();
+    };
+    
+    if (signal?.aborted) {
+      finish(signal.reason);
+      return;
+    }
+    if (inputs.length === 0) {
+      finish();
+      return;
+    }
+    
+    signal?.addEventListener('abort', abort);
+    for (let i = 0; i < Math.min(concurrency, inputs.length); i++) {
+      spawn();
+    }
+  });
+}
+
+/**
+ * Rebuild an error sent by a worker, with its library error class (so
+ * `instanceof ProteinHashParseError` holds) and its own properties
+ */
+function reviveError(error: WorkerError): Error {
+  const revived = Object.assign(new Error(error.message), error.fields, { name: error.name });
+  if (error.stack) revived.stack = error.stack;
+  
+  const errorClass = Object.values(errors).find(value => value.name === error.name);
+  return errorClass ? Object.setPrototypeOf(revived, errorClass.prototype) : revived;
+}
+
+/**
+ * Start a worker. From TypeScript sources (tests, ts-node) the worker
+ * compiles its modules on the fly with the TypeScript compiler.
+ */
+function startWorker(options: ProteinHasherOptions): Worker {
+  const extension = extname(__filename);
+  const script = join(__dirname, `hash-worker${extension}`);
+  if (extension !== '.ts') {
+    return new Worker(script, { workerData: options });
+  }
+  
+  const loader = `
+    const ts = require(${JSON.stringify(require.resolve('typescript'))});
+    const fs = require('fs');
+    require.extensions['.ts'] = (module, fileName) => {
+      const { outputText } = ts.transpileModule(fs.readFileSync(fileName, 'utf8'), {
+        fileName,
+        compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true }
+      });
+      module._compile(outputText, fileName);
+    };
+    require(${JSON.stringify(script)});
+  `;
+  return new Worker(loader, { eval: true, workerData: options });
+}
@@ -0,0 +1,251 @@
+/**
+ * 🗄️ Result Cache - Never hash an unchanged file twice
+ *
+ * Results are stored in a local directory under a content address: the
+ * digest of the source text, the algorithm version and the effective config.
+ * Every entry carries a checksum of its serialized result. Least recently
+ * used entries are evicted beyond the size limit, and the whole cache is
+ * dropped when the algorithm version or the result schema changes.
+ */
+
+import { createHash } from 'crypto';
+import { mkdirSync, readdirSync, readFileSync, renameSync, rmSync, statSync, utimesSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import {
+  ProteinHasher,
+  ProteinHasherOptions,
+  ProteinHashResult,
+  SourceOptions,
+  inferScriptKind,
+  ALGORITHM_VERSION
+} from './protein-hasher';
+import { isCustomWeightProfile } from './weight-profiles';
+import { RESULT_SCHEMA_VERSION, canonicalJson, serializeResult, deserializeResult } from './serialization';
+
+export interface ResultCacheOptions extends ProteinHasherOptions {
+  directory: string;
+  maxBytes?: number;       // Size limit of all entries (default 64 MiB)
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+  hits: number;            // Since this instance was created
+  misses: number;
+  evictions: number;
+}
+
+export interface CacheVerifyReport {
+  checked: number;
+  removed: string[];       // Keys of corrupt entries, which were deleted
+}
+
+interface CacheEntry {
+  bytes: number;
+  lastUsed: number;        // Entry file mtime, refreshed on every hit
+}
+
+const MANIFEST_FILE = 'manifest.json';
+const ENTRY_EXTENSION = '.phash';
+
+export class ResultCache {
+  private readonly DEFAULT_MAX_BYTES = 64 * 1024 * 1024;
+  private readonly hasher: ProteinHasher;
+  private readonly directory: string;
+  private readonly maxBytes: number;
+  private readonly configKey: string;
+  private entries = new Map<string, CacheEntry>();
+  private bytes = 0;
+  private counters = { hits: 0, misses: 0, evictions: 0 };
+  
+  constructor(options: ResultCacheOptions) {
+    const { directory, maxBytes, ...hasherOptions } = options;
+    this.hasher = new ProteinHasher(hasherOptions);
+    if (this.hasher.getConfig().typeAware) {
+      throw new Error('ResultCache does not support type-aware hashing: results depend on more than the source text');
+    }
+    if (isCustomWeightProfile(hasherOptions.weightProfile)) {
+      throw new Error('ResultCache does not support custom weight profiles: the cache key only knows their name');
+    }
+    
+    this.directory = directory;
+    this.maxBytes = maxBytes ?? this.DEFAULT_MAX_BYTES;
+    if (!Number.isInteger(this.maxBytes) || this.maxBytes < 1) {
+      throw new Error(`maxBytes must be a positive integer, got ${maxBytes}`);
+    }
+    
+    this.configKey = canonicalJson({
+      config: this.hasher.getConfig(),
+      enableAdvancedAnalysis: hasherOptions.enableAdvancedAnalysis ?? true
+    });
+    this.open();
+  }
+  
+  /**
+   * Cache key of source text under the algorithm version and this cache's config
+   */
+  keyOf(code: string, source: SourceOptions = {}): string {
+    const sourceDigest = createHash('sha256').update(code).digest('hex');
+    const scriptKind = source.scriptKind ?? inferScriptKind(source.fileName ?? 'temp.ts');
+    return createHash('sha256')
+      .update(`${ALGORITHM_VERSION}\n${this.configKey}\n${scriptKind}\n${sourceDigest}`)
+      .digest('hex');
+  }
+  
+  /**
+   * Cached result for the code, computed and stored on a miss
+   */
+  computeHash(code: string, source: SourceOptions = {}): ProteinHashResult {
+    const key = this.keyOf(code, source);
+    const cached = this.read(key);
+    if (cached) {
+      this.counters.hits++;
+      return cached;
+    }
+    
+    this.counters.misses++;
+    const result = this.hasher.computeHash(code, source);
+    this.write(key, result);
+    return result;
+  }
+  
+  /**
+   * Check every entry's checksum and schema; corrupt entries are deleted
+   */
+  verify(): CacheVerifyReport {
+    this.open();
+    const report: CacheVerifyReport = { checked: 0, removed: [] };
+    for (const key of Array.from(this.entries.keys())) {
+      report.checked++;
+      if (!this.load(key)) {
+        this.remove(key);
+        report.removed.push(key);
+      }
+    }
+    return report;
+  }
+  
+  /**
+   * Delete all entries
+   */
+  clear(): void {
+    for (const key of Array.from(this.entries.keys())) {
+      this.remove(key);
+    }
+  }
+  
+  getStats(): CacheStats {
+    return { entries: this.entries.size, bytes: this.bytes, ...this.counters };
+  }
+  
+  /**
+   * Create the directory, drop it on a version change and index the entries
+   */
+  private open(): void {
+    mkdirSync(this.directory, { recursive: true });
+    
+    const manifest = canonicalJson({ schemaVersion: RESULT_SCHEMA_VERSION, algorithmVersion: ALGORITHM_VERSION });
+    const manifestPath = join(this.directory, MANIFEST_FILE);
+    let current = false;
+    try {
+      current = readFileSync(manifestPath, 'utf8') === manifest;
+    } catch {
+      // No manifest yet
+    }
+    
+    this.entries.clear();
+    this.bytes = 0;
+    for (const name of readdirSync(this.directory)) {
+      if (!name.endsWith(ENTRY_EXTENSION)) continue;
+      const path = join(this.directory, name);
+      if (!current) {
+        rmSync(path, { force: true });
+        continue;
+      }
+      const { size, mtimeMs } = statSync(path);
+      this.entries.set(name.slice(0, -ENTRY_EXTENSION.length), { bytes: size, lastUsed: mtimeMs });
+      this.bytes += size;
+    }
+    
+    if (!current) {
+      writeFileSync(manifestPath, manifest);
+    }
+  }
+  
+  private read(key: string): ProteinHashResult | undefined {
+    if (!this.entries.has(key)) return undefined;
+    
+    const result = this.load(key);
+    if (!result) {
+      this.remove(key);
+      return undefined;
+    }
+    
+    // Move to the most recently used end, on disk and in the index
+    const now = new Date();
+    const entry = this.entries.get(key)!;
+    utimesSync(this.path(key), now, now);
+    this.entries.delete(key);
+    this.entries.set(key, { ...entry, lastUsed: now.getTime() });
+    return result;
+  }
+  
+  /**
+   * Entry format: checksum of the serialized result, newline, serialized result
+   */
+  private load(key: string): ProteinHashResult | undefined {
+    try {
+      const content = readFileSync(this.path(key), 'utf8');
+      const newline = content.indexOf('\n');
+      const json = content.slice(newline + 1);
+      if (newline < 0 || content.slice(0, newline) !== createHash('sha256').update(json).digest('hex')) {
+        return undefined;
+      }
+      return deserializeResult(json);
+    } catch {
+      return undefined;
+    }
+  }
+  
+  private write(key: string, result: ProteinHashResult): void {
+    const json = serializeResult(result);
+    const content = `${createHash('sha256').update(json).digest('hex')}\n${json}`;
+    
+    // Write then rename, so readers never see a partial entry
+    const temporary = `${this.path(key)}.${process.pid}.tmp`;
+    writeFileSync(temporary, content);
+    renameSync(temporary, this.path(key));
+    
+    this.remove(key, false);
+    const bytes = Buffer.byteLength(content);
+    this.entries.set(key, { bytes, lastUsed: Date.now() });
+    this.bytes += bytes;
+    this.evict();
+  }
+  
+  private evict(): void {
+    if (this.bytes <= this.maxBytes) return;
+    
+    const oldestFirst = Array.from(this.entries).sort(([, a], [, b]) => a.lastUsed - b.lastUsed);
+    for (const [key] of oldestFirst) {
+      if (this.bytes <= this.maxBytes) break;
+      this.remove(key);
+      this.counters.evictions++;
+    }
+  }
+  
+  private remove(key: string, deleteFile: boolean = true): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.bytes -= entry.bytes;
+    }
+    if (deleteFile) {
+      rmSync(this.path(key), { force: true });
+    }
+  }
+  
+  private path(key: string): string {
+    return join(this.directory, key + ENTRY_EXTENSION);
+  }
+}
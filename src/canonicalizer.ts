@@ -0,0 +1,189 @@
+/**
+ * ⚖️ Canonicalizer - Operand order and nesting normalization
+ *
+ * `a * b` and `b * a`, or `(a * b) * c` and `a * (b * c)`, compute the same
+ * thing. Before the graph is built, associative chains of one operator are
+ * flattened into a single n-ary operation and the operands of commutative
+ * operators are sorted by a structural key, so both spellings fold alike.
+ * Operands with side effects keep their order, and `+` (which also
+ * concatenates strings) is only normalized when the type checker proves it
+ * numeric.
+ */
+
+import * as ts from 'typescript';
+import { OperationClassifier, OperationCategory } from './operation-classifier';
+import { isTypeOnly, isTypeAssertion, skipTypeAssertions } from './type-erasure';
+import type { TypeResolver } from './type-resolver';
+
+export interface CanonicalExpression {
+  category: OperationCategory;
+  operands: ts.Expression[];   // Flattened and, where commutative, sorted
+  sorted: boolean;             // Operand order was normalized
+}
+
+// Operators whose evaluation order and grouping can be normalized
+const ASSOCIATIVE = new Set<ts.SyntaxKind>([
+  ts.SyntaxKind.PlusToken,
+  ts.SyntaxKind.AsteriskToken,
+  ts.SyntaxKind.AmpersandToken,
+  ts.SyntaxKind.BarToken,
+  ts.SyntaxKind.CaretToken,
+  ts.SyntaxKind.AmpersandAmpersandToken,
+  ts.SyntaxKind.BarBarToken,
+  ts.SyntaxKind.QuestionQuestionToken
+]);
+
+// Operators that are commutative and associative only for numbers
+const NUMERIC_ONLY = new Set<ts.SyntaxKind>([
+  ts.SyntaxKind.PlusToken
+]);
+
+// `&&`, `||` and `??` short-circuit, so they are only regrouped, never reordered
+const COMMUTATIVE = new Set<ts.SyntaxKind>([
+  ts.SyntaxKind.PlusToken,
+  ts.SyntaxKind.AsteriskToken,
+  ts.SyntaxKind.AmpersandToken,
+  ts.SyntaxKind.BarToken,
+  ts.SyntaxKind.CaretToken,
+  ts.SyntaxKind.EqualsEqualsToken,
+  ts.SyntaxKind.EqualsEqualsEqualsToken,
+  ts.SyntaxKind.ExclamationEqualsToken,
+  ts.SyntaxKind.ExclamationEqualsEqualsToken
+]);
+
+/**
+ * Operator classes that canonicalization can be enabled for
+ */
+export const CANONICALIZABLE_CATEGORIES: readonly OperationCategory[] = [
+  OperationCategory.ARITHMETIC,
+  OperationCategory.BITWISE,
+  OperationCategory.COMPARISON,
+  OperationCategory.LOGICAL
+];
+
+export class Canonicalizer {
+  private readonly categories: ReadonlySet<OperationCategory>;
+  private readonly classifier = new OperationClassifier();
+  private readonly keys = new WeakMap<ts.Node, string>();
+  
+  constructor(categories: readonly OperationCategory[], private readonly eraseTypes: boolean = false) {
+    this.categories = new Set(categories);
+  }
+  
+  /**
+   * Canonical operand list of a binary expression, or null if its
+   * operator class is not canonicalized. Without a resolver `+` is never
+   * canonicalized.
+   */
+  canonicalize(node: ts.BinaryExpression, resolver?: TypeResolver): CanonicalExpression | null {
+    const operator = node.operatorToken.kind;
+    if (!ASSOCIATIVE.has(operator) && !COMMUTATIVE.has(operator)) return null;
+    if (NUMERIC_ONLY.has(operator) && !this.isNumeric(node, resolver)) return null;
+    
+    const signature = this.classifier.classifyNode(node);
+    if (!signature || !this.categories.has(signature.category)) return null;
+    
+    const operands = ASSOCIATIVE.has(operator)
+      ? this.flatten(node, operator)
+      : [node.left, node.right];
+    
+    // Reordering would reorder the side effects
+    if (COMMUTATIVE.has(operator) && !operands.some(hasSideEffects)) {
+      const keyed = operands.map(operand => ({ operand, key: this.structuralKey(operand, resolver) }));
+      keyed.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+      return { category: signature.category, operands: keyed.map(k => k.operand), sorted: true };
+    }
+    
+    return { category: signature.category, operands, sorted: false };
+  }
+  
+  /**
+   * Name-insensitive key describing the shape of a subtree.
+   * Canonicalized operations contribute their sorted operand keys, so the key
+   * itself does not depend on operand order.
+   */
+  structuralKey(node: ts.Node, resolver?: TypeResolver): string {
+    const cached = this.keys.get(node);
+    if (cached !== undefined) return cached;
+    
+    let key: string;
+    if (this.eraseTypes && skipTypeAssertions(node) !== node) {
+      key = this.structuralKey(skipTypeAssertions(node), resolver);
+    } else if (ts.isIdentifier(node)) {
+      key = 'ID';
+    } else if (ts.isLiteralExpression(node)) {
+      key = `${ts.SyntaxKind[node.kind]}=${node.text}`;
+    } else if (ts.isParenthesizedExpression(node)) {
+      key = this.structuralKey(node.expression, resolver);
+    } else {
+      const canonical = ts.isBinaryExpression(node) ? this.canonicalize(node, resolver) : null;
+      const children: ts.Node[] = canonical ? canonical.operands : [];
+      if (!canonical) {
+        ts.forEachChild(node, child => {
+          if (!this.eraseTypes || !isTypeOnly(child)) children.push(child);
+        });
+      }
+      key = `${ts.SyntaxKind[node.kind]}${this.operatorOf(node)}(${children.map(child => this.structuralKey(child, resolver)).join(',')})`;
+    }
+    
+    this.keys.set(node, key);
+    return key;
+  }
+  
+  /**
+   * Whether the checker types an expression as a number. A numeric `+`
+   * cannot have string operands, so the whole chain below it is numeric.
+   */
+  private isNumeric(node: ts.Expression, resolver?: TypeResolver): boolean {
+    if (!resolver) return false;
+    const category = resolver.typeCategory(node);
+    return category === 'number' || category === 'bigint';
+  }
+  
+  private operatorOf(node: ts.Node): string {
+    if (ts.isBinaryExpression(node)) return `:${ts.SyntaxKind[node.operatorToken.kind]}`;
+    if (ts.isPrefixUnaryExpression(node) || ts.isPostfixUnaryExpression(node)) {
+      return `:${ts.SyntaxKind[node.operator]}`;
+    }
+    return '';
+  }
+  
+  /**
+   * Operands of an associative chain of one operator, parentheses removed
+   */
+  private flatten(node: ts.Expression, operator: ts.SyntaxKind): ts.Expression[] {
+    let inner = node;
+    while (ts.isParenthesizedExpression(inner) || (this.eraseTypes && isTypeAssertion(inner))) {
+      inner = (inner as ts.ParenthesizedExpression).expression;
+    }
+    
+    if (ts.isBinaryExpression(inner) && inner.operatorToken.kind === operator) {
+      return [...this.flatten(inner.left, operator), ...this.flatten(inner.right, operator)];
+    }
+    
+    return [node];
+  }
+}
+
+/**
+ * Whether evaluating an expression can have side effects: calls,
+ * assignments, increments, deletes, awaits and yields. Function bodies
+ * only run when called, so they are not entered.
+ */
+function hasSideEffects(node: ts.Node): boolean {
+  if (ts.isFunctionLike(node)) return false;
+  if (ts.isCallExpression(node) || ts.isNewExpression(node) || ts.isTaggedTemplateExpression(node) ||
+      ts.isDeleteExpression(node) || ts.isAwaitExpression(node) || ts.isYieldExpression(node)) {
+    return true;
+  }
+  if ((ts.isPrefixUnaryExpression(node) || ts.isPostfixUnaryExpression(node)) &&
+      (node.operator === ts.SyntaxKind.PlusPlusToken || node.operator === ts.SyntaxKind.MinusMinusToken)) {
+    return true;
+  }
+  if (ts.isBinaryExpression(node) &&
+      node.operatorToken.kind >= ts.SyntaxKind.FirstAssignment &&
+      node.operatorToken.kind <= ts.SyntaxKind.LastAssignment) {
+    return true;
+  }
+  return ts.forEachChild(node, hasSideEffects) ?? false;
+}
@@ -0,0 +1,140 @@
+/**
+ * 📦 Content Identifiers - CIDv1 of source bytes
+ *
+ * The exact-bytes half of a hybrid ID: a CIDv1 with the raw codec and a
+ * sha2-256 multihash, in the base32 multibase encoding IPFS uses by default
+ * (`bafkrei...`). Computed locally, without an IPFS node.
+ */
+
+import { createHash } from 'crypto';
+import { CidFormatError } from './errors';
+
+export interface ParsedCid {
+  version: 1;
+  codec: number;           // Multicodec of the content (0x55 raw, 0x70 dag-pb, ...)
+  hashFunction: number;    // Multihash function code (0x12 sha2-256)
+  digest: string;          // Hex
+}
+
+export const RAW_CODEC = 0x55;
+export const SHA2_256 = 0x12;
+
+const BASE32_PREFIX = 'b';
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+const DIGEST_LENGTHS: Record<number, number> = { [SHA2_256]: 32 };
+
+/**
+ * CIDv1 (raw codec, sha2-256) of source text (as UTF-8) or bytes
+ */
+export function computeCid(content: string | Uint8Array): string {
+  const digest = createHash('sha256').update(content).digest();
+  const bytes = Buffer.concat([
+    Buffer.from([...varint(1), ...varint(RAW_CODEC), ...varint(SHA2_256), ...varint(digest.length)]),
+    digest
+  ]);
+  return BASE32_PREFIX + encodeBase32(bytes);
+}
+
+/**
+ * Decode and validate a base32 CIDv1 with a sha2-256 multihash
+ */
+export function parseCid(cid: string): ParsedCid {
+  if (/^Qm[1-9A-HJ-NP-Za-km-z]{44}$/.test(cid)) {
+    throw new CidFormatError('CIDv0 is not supported; convert it to a base32 CIDv1', cid);
+  }
+  if (!cid.startsWith(BASE32_PREFIX)) {
+    throw new CidFormatError(`Expected the base32 multibase prefix '${BASE32_PREFIX}'`, cid);
+  }
+  
+  const bytes = decodeBase32(cid.slice(1), cid);
+  let offset = 0;
+  const read = (field: string): number => {
+    const decoded = readVarint(bytes, offset);
+    if (!decoded) {
+      throw new CidFormatError(`Truncated ${field}`, cid);
+    }
+    offset = decoded.next;
+    return decoded.value;
+  };
+  
+  const version = read('CID version');
+  if (version !== 1) {
+    throw new CidFormatError(`Unsupported CID version ${version}`, cid);
+  }
+  const codec = read('codec');
+  const hashFunction = read('multihash function');
+  const expectedLength = DIGEST_LENGTHS[hashFunction];
+  if (expectedLength === undefined) {
+    throw new CidFormatError(`Unsupported multihash function 0x${hashFunction.toString(16)}`, cid);
+  }
+  const length = read('multihash length');
+  if (length !== expectedLength || bytes.length - offset !== length) {
+    throw new CidFormatError(`Expected a ${expectedLength}-byte digest, got ${bytes.length - offset} bytes`, cid);
+  }
+  
+  return {
+    version: 1,
+    codec,
+    hashFunction,
+    digest: Buffer.from(bytes.subarray(offset)).toString('hex')
+  };
+}
+
+function varint(value: number): number[] {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push((value & 0x7f) | 0x80);
+    value >>>= 7;
+  }
+  bytes.push(value);
+  return bytes;
+}
+
+function readVarint(bytes: Uint8Array, offset: number): { value: number; next: number } | undefined {
+  let value = 0;
+  for (let shift = 0, i = offset; i < bytes.length && shift < 28; shift += 7, i++) {
+    value |= (bytes[i] & 0x7f) << shift;
+    if ((bytes[i] & 0x80) === 0) return { value, next: i + 1 };
+  }
+  return undefined;
+}
+
+/**
+ * RFC 4648 base32, lowercase, without padding
+ */
+function encodeBase32(bytes: Uint8Array): string {
+  let output = '';
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = ((buffer << 8) | byte) & 0xffff;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function decodeBase32(text: string, cid: string): Uint8Array {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of text) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value < 0) {
+      throw new CidFormatError(`Invalid base32 character '${char}'`, cid);
+    }
+    buffer = ((buffer << 5) | value) & 0xfff;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((buffer >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Uint8Array.from(bytes);
+}
@@ -4,6 +4,7 @@
 
 import { ProteinHasher, ProteinHashResult } from './protein-hasher';
 import { HashComparison } from './types';
+import { SimilarityOptions, resolveSimilarityStrategy, euclideanDistance } from './similarity';
 
 const SEMANTIC_EQUIVALENCE_THRESHOLD = 0.95;
 const SIMILARITY_THRESHOLD = 0.80;
@@ -11,12 +12,16 @@ const SIMILARITY_THRESHOLD = 0.80;
 /**
  * Compare two protein hashes and return detailed comparison
  */
-export function compareHashes(hash1: ProteinHashResult, hash2: ProteinHashResult): HashComparison {
+export function compareHashes(
+  hash1: ProteinHashResult,
+  hash2: ProteinHashResult,
+  options: SimilarityOptions = {}
+): HashComparison {
   const hasher = new ProteinHasher();
-  const similarity = hasher.compareSimilarity(hash1, hash2);
+  const similarity = hasher.compareSimilarity(hash1, hash2, options);
   
   // Calculate eigenvalue distance
-  const eigenDistance = calculateEigenDistance(hash1.eigenTop, hash2.eigenTop);
+  const eigenDistance = euclideanDistance(hash1.eigenTop, hash2.eigenTop);
   
   return {
     hash1: hash1.phash,
@@ -30,47 +35,43 @@ export function compareHashes(hash1: ProteinHashResult, hash2: ProteinHashResult
 /**
  * Check if two code snippets are semantically equivalent
  */
-export function isSemanticallyEquivalent(code1: string, code2: string): boolean {
-  const hasher = new ProteinHasher();
+export function isSemanticallyEquivalent(code1: string, code2: string, options: SimilarityOptions = {}): boolean {
+  const hasher = hasherFor(options);
   const hash1 = hasher.computeHash(code1);
   const hash2 = hasher.computeHash(code2);
   
-  const similarity = hasher.compareSimilarity(hash1, hash2);
+  const similarity = hasher.compareSimilarity(hash1, hash2, options);
   return similarity >= SEMANTIC_EQUIVALENCE_THRESHOLD;
 }
 
 /**
  * Compute similarity score between two code snippets
  */
-export function computeSimilarity(code1: string, code2: string): number {
-  const hasher = new ProteinHasher();
+export function computeSimilarity(code1: string, code2: string, options: SimilarityOptions = {}): number {
+  const hasher = hasherFor(options);
   const hash1 = hasher.computeHash(code1);
   const hash2 = hasher.computeHash(code2);
   
-  return hasher.compareSimilarity(hash1, hash2);
+  return hasher.compareSimilarity(hash1, hash2, options);
 }
 
 /**
- * Calculate Euclidean distance between eigenvalue vectors
+ * Hasher whose results carry what the strategy compares
  */
-function calculateEigenDistance(eigen1: number[], eigen2: number[]): number {
-  const maxLen = Math.max(eigen1.length, eigen2.length);
-  let sum = 0;
-  
-  for (let i = 0; i < maxLen; i++) {
-    const v1 = eigen1[i] || 0;
-    const v2 = eigen2[i] || 0;
-    sum += Math.pow(v1 - v2, 2);
-  }
-  
-  return Math.sqrt(sum);
+function hasherFor(options: SimilarityOptions): ProteinHasher {
+  const strategy = resolveSimilarityStrategy(options.strategy);
+  return new ProteinHasher({ includeGraph: strategy.requiresGraph === true });
 }
 
 /**
  * Group code snippets by semantic similarity
  */
-export function groupBySimilarity(codes: string[], threshold: number = SIMILARITY_THRESHOLD): string[][] {
-  const hasher = new ProteinHasher();
+export function groupBySimilarity(
+  codes: string[],
+  threshold: number = SIMILARITY_THRESHOLD,
+  options: SimilarityOptions = {}
+): string[][] {
+  const hasher = hasherFor(options);
   const hashes = codes.map(code => hasher.computeHash(code));
   const groups: number[][] = [];
   const assigned = new Set<number>();
@@ -84,7 +85,7 @@ export function groupBySimilarity(codes: string[], threshold: number = SIMILARIT
     for (let j = i + 1; j < hashes.length; j++) {
       if (assigned.has(j)) continue;
       
-      const similarity = hasher.compareSimilarity(hashes[i], hashes[j]);
+      const similarity = hasher.compareSimilarity(hashes[i], hashes[j], options);
       if (similarity >= threshold) {
         group.push(j);
         assigned.add(j);
@@ -11,6 +11,7 @@
  */
 
 import * as ts from 'typescript';
+import { isTypeOnly } from './type-erasure';
 
 export interface ComplexPattern {
   type: PatternType;
@@ -44,13 +45,15 @@ export class ComplexStructureAnalyzer {
   private closures: Set<ts.Node> = new Set();
   private patterns: ComplexPattern[] = [];
   
+  constructor(private readonly eraseTypes: boolean = false) {}
+  
   /**
-   * Analyze a source file for complex patterns
+   * Analyze a source file (or any subtree of one) for complex patterns
    */
-  analyzeStructures(sourceFile: ts.SourceFile): ComplexPattern[] {
+  analyzeStructures(root: ts.Node): ComplexPattern[] {
     this.reset();
-    this.buildScopeChain(sourceFile);
-    this.detectPatterns(sourceFile);
+    this.buildScopeChain(root);
+    this.detectPatterns(root);
     return this.patterns;
   }
   
@@ -58,6 +61,7 @@ export class ComplexStructureAnalyzer {
    * Build scope chain for closure detection
    */
   private buildScopeChain(node: ts.Node, parent?: ScopeInfo): void {
+    if (this.eraseTypes && isTypeOnly(node)) return;
     let currentScope = parent;
     
     // Create new scope for function-like nodes
@@ -94,6 +98,8 @@ export class ComplexStructureAnalyzer {
    * Detect all complex patterns
    */
   private detectPatterns(node: ts.Node): void {
+    if (this.eraseTypes && isTypeOnly(node)) return;
+    
     // Closures
     if (this.isClosure(node)) {
       this.patterns.push(this.analyzeClosure(node));
@@ -402,6 +408,7 @@ export class ComplexStructureAnalyzer {
     // Check for inheritance
     if (node.heritageClauses) {
       for (const clause of node.heritageClauses) {
+        if (this.eraseTypes && isTypeOnly(clause)) continue;
         if (clause.token === ts.SyntaxKind.ExtendsKeyword) {
           complexity += 10;
           depth++;
@@ -412,8 +419,8 @@ export class ComplexStructureAnalyzer {
       }
     }
     
-    // Count methods and properties
-    const members = node.members || [];
+    // Count methods and properties (that survive compilation, with eraseTypes)
+    const members = (node.members || []).filter(member => !this.eraseTypes || !isTypeOnly(member));
     complexity += members.length * 2;
     
     // Check for static members
@@ -0,0 +1,181 @@
+/**
+ * Configuration resolution for Protein Hash
+ *
+ * Turns a partial ProteinHashConfig into the effective settings used by the
+ * hasher, and encodes the hash-affecting part of it into a compact
+ * fingerprint that travels inside every phash.
+ */
+
+import { getHashes } from 'crypto';
+import { ProteinHashConfig, FingerprintStrategy } from './types';
+import { OperationCategory } from './operation-classifier';
+import { CANONICALIZABLE_CATEGORIES } from './canonicalizer';
+import { DEFAULT_WL_ITERATIONS } from './wl-hash';
+import { DEFAULT_WEIGHT_PROFILE, isWeightProfileName, resolveWeightProfile } from './weight-profiles';
+
+/**
+ * Effective settings; the weight profile is referred to by name
+ */
+export type ResolvedConfig = Required<Omit<ProteinHashConfig, 'weightProfile'>> & { weightProfile: string };
+
+export const DEFAULT_CONFIG: ResolvedConfig = {
+  eigenvalueCount: 5,
+  quantizationLevels: 1000,
+  algorithm: 'sha256',
+  includeMetadata: true,
+  includeGraph: false,
+  canonicalize: [
+    OperationCategory.ARITHMETIC,
+    OperationCategory.BITWISE,
+    OperationCategory.COMPARISON
+  ],
+  typeAware: false,
+  fingerprint: 'spectral',
+  wlIterations: DEFAULT_WL_ITERATIONS,
+  strict: false,
+  eraseTypes: false,
+  weightProfile: DEFAULT_WEIGHT_PROFILE
+};
+
+const FINGERPRINT_STRATEGIES: FingerprintStrategy[] = ['spectral', 'wl'];
+
+// One letter per canonicalizable operator class, in fingerprint order
+const CANONICALIZE_CODES: Array<[OperationCategory, string]> = [
+  [OperationCategory.ARITHMETIC, 'a'],
+  [OperationCategory.BITWISE, 'b'],
+  [OperationCategory.COMPARISON, 'c'],
+  [OperationCategory.LOGICAL, 'l']
+];
+
+/**
+ * Merge user config with defaults and validate the result
+ */
+export function resolveConfig(config: ProteinHashConfig = {}): ResolvedConfig {
+  const resolved: ResolvedConfig = {
+    eigenvalueCount: config.eigenvalueCount ?? DEFAULT_CONFIG.eigenvalueCount,
+    quantizationLevels: config.quantizationLevels ?? DEFAULT_CONFIG.quantizationLevels,
+    algorithm: config.algorithm ?? DEFAULT_CONFIG.algorithm,
+    includeMetadata: config.includeMetadata ?? DEFAULT_CONFIG.includeMetadata,
+    includeGraph: config.includeGraph ?? DEFAULT_CONFIG.includeGraph,
+    canonicalize: [...(config.canonicalize ?? DEFAULT_CONFIG.canonicalize)],
+    typeAware: config.typeAware ?? DEFAULT_CONFIG.typeAware,
+    fingerprint: config.fingerprint ?? DEFAULT_CONFIG.fingerprint,
+    wlIterations: config.wlIterations ?? DEFAULT_CONFIG.wlIterations,
+    strict: config.strict ?? DEFAULT_CONFIG.strict,
+    eraseTypes: config.eraseTypes ?? DEFAULT_CONFIG.eraseTypes,
+    weightProfile: resolveWeightProfile(config.weightProfile).name
+  };
+  
+  if (!Number.isInteger(resolved.eigenvalueCount) || resolved.eigenvalueCount < 1) {
+    throw new Error(`eigenvalueCount must be a positive integer, got ${resolved.eigenvalueCount}`);
+  }
+  
+  if (!Number.isInteger(resolved.quantizationLevels) || resolved.quantizationLevels < 1) {
+    throw new Error(`quantizationLevels must be a positive integer, got ${resolved.quantizationLevels}`);
+  }
+  
+  if (!FINGERPRINT_STRATEGIES.includes(resolved.fingerprint)) {
+    throw new Error(`Unknown fingerprint strategy ${resolved.fingerprint}`);
+  }
+  
+  if (!Number.isInteger(resolved.wlIterations) || resolved.wlIterations < 1) {
+    throw new Error(`wlIterations must be a positive integer, got ${resolved.wlIterations}`);
+  }
+  
+  for (const category of resolved.canonicalize) {
+    if (!CANONICALIZABLE_CATEGORIES.includes(category)) {
+      throw new Error(`Cannot canonicalize operator class ${category}`);
+    }
+  }
+  
+  if (!getHashes().includes(resolved.algorithm)) {
+    throw new Error(`Hash algorithm ${resolved.algorithm} is not available in this Node.js build`);
+  }
+  
+  return resolved;
+}
+
+/**
+ * Encode the hash-affecting settings that differ from the defaults.
+ *
+ * The default configuration encodes to an empty string, so hashes produced
+ * with default settings keep the original `phash:v1:<algorithm>:<digest>` shape.
+ * The digest algorithm is not part of the fingerprint - it has its own segment.
+ */
+export function configFingerprint(config: ResolvedConfig): string {
+  const tokens: string[] = [];
+  
+  if (config.eigenvalueCount !== DEFAULT_CONFIG.eigenvalueCount) {
+    tokens.push(`k${config.eigenvalueCount}`);
+  }
+  if (config.quantizationLevels !== DEFAULT_CONFIG.quantizationLevels) {
+    tokens.push(`q${config.quantizationLevels}`);
+  }
+  const canonicalize = encodeCanonicalize(config.canonicalize);
+  if (canonicalize !== encodeCanonicalize(DEFAULT_CONFIG.canonicalize)) {
+    tokens.push(`c${canonicalize}`);
+  }
+  if (config.typeAware) {
+    tokens.push('t');
+  }
+  if (config.eraseTypes) {
+    tokens.push('e');
+  }
+  if (config.weightProfile !== DEFAULT_CONFIG.weightProfile) {
+    tokens.push(`w${config.weightProfile}`);
+  }
+  if (config.fingerprint === 'wl') {
+    // Refinement rounds only matter when they produce the digest
+    tokens.push('fwl');
+    if (config.wlIterations !== DEFAULT_CONFIG.wlIterations) {
+      tokens.push(`i${config.wlIterations}`);
+    }
+  }
+  
+  return tokens.join('.');
+}
+
+/**
+ * Decode a config fingerprint back into the settings it encodes.
+ * Returns null if it contains a token this version does not understand.
+ */
+export function parseConfigFingerprint(fingerprint: string): ProteinHashConfig | null {
+  const config: ProteinHashConfig = {};
+  if (!fingerprint) return config;
+  
+  for (const token of fingerprint.split('.')) {
+    const key = token[0];
+    const value = token.slice(1);
+    
+    if (key === 'k' && /^[1-9][0-9]*$/.test(value)) {
+      config.eigenvalueCount = Number(value);
+    } else if (key === 'q' && /^[1-9][0-9]*$/.test(value)) {
+      config.quantizationLevels = Number(value);
+    } else if (key === 'c' && /^a?b?c?l?$/.test(value)) {
+      config.canonicalize = CANONICALIZE_CODES
+        .filter(([, code]) => value.includes(code))
+        .map(([category]) => category);
+    } else if (token === 't') {
+      config.typeAware = true;
+    } else if (token === 'e') {
+      config.eraseTypes = true;
+    } else if (key === 'w' && isWeightProfileName(value)) {
+      config.weightProfile = value;
+    } else if (token === 'fwl') {
+      config.fingerprint = 'wl';
+    } else if (key === 'i' && /^[1-9][0-9]*$/.test(value)) {
+      config.wlIterations = Number(value);
+    } else {
+      return null;
+    }
+  }
+  
+  return config;
+}
+
+function encodeCanonicalize(categories: OperationCategory[]): string {
+  return CANONICALIZE_CODES
+    .filter(([category]) => categories.includes(category))
+    .map(([, code]) => code)
+    .join('');
+}
@@ -0,0 +1,34 @@
+/**
+ * 🩺 Diagnostics - Syntax errors found while parsing
+ *
+ * ts.createSourceFile never throws: it records syntax errors and recovers.
+ * These are the errors inside a node, so results can say whether they
+ * fingerprint real code or the parser's best guess.
+ */
+
+import * as ts from 'typescript';
+import { SourceSpan, getRangeSpan } from './source-units';
+
+export interface ParseDiagnostic {
+  code: number;      // TypeScript diagnostic code (TS1005, ...)
+  message: string;
+  span: SourceSpan;
+}
+
+/**
+ * Syntax errors of the file that start inside the node
+ */
+export function getParseDiagnostics(node: ts.Node): ParseDiagnostic[] {
+  const sourceFile = node.getSourceFile();
+  // Recorded by the parser but not part of the public SourceFile type
+  const recorded = (sourceFile as ts.SourceFile & { parseDiagnostics?: ts.DiagnosticWithLocation[] }).parseDiagnostics ?? [];
+  const isFile = ts.isSourceFile(node);
+  
+  return recorded
+    .filter(diagnostic => isFile || (diagnostic.start >= node.pos && diagnostic.start < node.end))
+    .map(diagnostic => ({
+      code: diagnostic.code,
+      message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+      span: getRangeSpan(diagnostic.start, diagnostic.start + diagnostic.length, sourceFile)
+    }));
+}
@@ -0,0 +1,80 @@
+/**
+ * Error types for Protein Hash
+ */
+
+import type { ParseDiagnostic } from './diagnostics';
+
+/**
+ * Base class for all errors thrown by this library
+ */
+export class ProteinHashError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * A phash string (or one of its parts) is malformed
+ */
+export class PhashFormatError extends ProteinHashError {
+  constructor(message: string, readonly input: string) {
+    super(message);
+  }
+}
+
+/**
+ * Phashes of unsupported or mismatched format versions were used together
+ */
+export class PhashVersionError extends ProteinHashError {
+  constructor(message: string, readonly versions: string[]) {
+    super(message);
+  }
+}
+
+/**
+ * A serialized result is not valid JSON, has an unsupported schema version
+ * or does not match the published schema
+ */
+export class SerializationError extends ProteinHashError {
+  constructor(message: string, readonly path: string) {
+    super(message);
+  }
+}
+
+/**
+ * Strict mode refused to fingerprint source text with syntax errors
+ */
+export class ProteinHashParseError extends ProteinHashError {
+  constructor(message: string, readonly fileName: string, readonly diagnostics: ParseDiagnostic[]) {
+    super(message);
+  }
+}
+
+/**
+ * A content identifier is malformed or uses an unsupported encoding
+ */
+export class CidFormatError extends ProteinHashError {
+  constructor(message: string, readonly input: string) {
+    super(message);
+  }
+}
+
+/**
+ * A hybrid ID is not a `<phash>|<cid>` pair
+ */
+export class HybridIdFormatError extends ProteinHashError {
+  constructor(message: string, readonly input: string) {
+    super(message);
+  }
+}
+
+/**
+ * A well-formed hybrid ID cannot be verified because its phash settings
+ * cannot be rebuilt (e.g. a custom weight profile)
+ */
+export class HybridIdVerificationError extends ProteinHashError {
+  constructor(message: string, readonly input: string) {
+    super(message);
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * 🔎 Explain - Why two fingerprints differ
+ *
+ * Aligns the logical graphs of two code versions with Weisfeiler-Lehman
+ * colors (widest matching neighborhood first), then reports the nodes that
+ * could not be matched - with their source spans - and the components of
+ * the similarity score.
+ */
+
+import { ProteinHasher, ProteinHasherOptions, LogicalGraph, SourceOptions } from './protein-hasher';
+import { SourceSpan } from './source-units';
+import { ScoreBreakdown, scoreBreakdown } from './similarity';
+import { wlColorRounds } from './wl-hash';
+
+export type NodeChangeKind = 'added' | 'removed' | 'relabeled';
+
+export interface NodeRef {
+  id: string;
+  label: string;
+  span?: SourceSpan;
+}
+
+export interface NodeChange {
+  change: NodeChangeKind;
+  before?: NodeRef;  // Node in the first graph (removed, relabeled)
+  after?: NodeRef;   // Node in the second graph (added, relabeled)
+}
+
+export interface DifferenceExplanation {
+  phashA: string;
+  phashB: string;
+  identical: boolean;          // Same phash
+  similarity: ScoreBreakdown;  // The compareSimilarity score and its components
+  matchedNodes: number;
+  changes: NodeChange[];
+  changedLines: {              // 1-based start lines of the changes
+    before: number[];
+    after: number[];
+  };
+}
+
+// Neighborhood radius tried first when aligning
+const ALIGNMENT_ROUNDS = 3;
+
+/**
+ * Explain the difference between the fingerprints of two code versions
+ */
+export function explainDifference(
+  codeA: string,
+  codeB: string,
+  options: ProteinHasherOptions = {},
+  source: SourceOptions = {}
+): DifferenceExplanation {
+  const hasher = new ProteinHasher({ ...options, includeGraph: true });
+  const hashA = hasher.computeHash(codeA, source);
+  const hashB = hasher.computeHash(codeB, source);
+  const graphA = hashA.graph!;
+  const graphB = hashB.graph!;
+  
+  const matching = alignGraphs(graphA, graphB);
+  const changes = diffAlignment(graphA, graphB, matching);
+  
+  const lines = (refs: Array<NodeRef | undefined>) => Array.from(
+    new Set(refs.flatMap(ref => (ref?.span ? [ref.span.start.line] : [])))
+  ).sort((x, y) => x - y);
+  
+  return {
+    phashA: hashA.phash,
+    phashB: hashB.phash,
+    identical: hashA.phash === hashB.phash,
+    similarity: scoreBreakdown(hashA, hashB),
+    matchedNodes: matching.size,
+    changes,
+    changedLines: {
+      before: lines(changes.map(change => change.before)),
+      after: lines(changes.map(change => change.after))
+    }
+  };
+}
+
+/**
+ * Match nodes of two graphs. Nodes are paired by equal WL color, starting
+ * from the widest neighborhood and falling back to the bare label; ties are
+ * broken by document order. Returns first-graph id -> second-graph id.
+ */
+export function alignGraphs(a: LogicalGraph, b: LogicalGraph, rounds: number = ALIGNMENT_ROUNDS): Map<string, string> {
+  const colorsA = wlColorRounds(a, rounds);
+  const colorsB = wlColorRounds(b, rounds);
+  const matching = new Map<string, string>();
+  const matchedB = new Set<string>();
+  
+  for (let round = rounds; round >= 0; round--) {
+    const candidates = new Map<string, string[]>();
+    for (const [id, color] of colorsB[round]) {
+      if (matchedB.has(id)) continue;
+      const list = candidates.get(color) || [];
+      list.push(id);
+      candidates.set(color, list);
+    }
+    
+    for (const [id, color] of colorsA[round]) {
+      if (matching.has(id)) continue;
+      const partner = candidates.get(color)?.shift();
+      if (partner) {
+        matching.set(id, partner);
+        matchedB.add(partner);
+      }
+    }
+  }
+  
+  return matching;
+}
+
+/**
+ * Unmatched nodes become changes. An unmatched pair attached to the same
+ * matched neighbors in the same way is one relabeled node.
+ */
+function diffAlignment(a: LogicalGraph, b: LogicalGraph, matching: Map<string, string>): NodeChange[] {
+  const matchedB = new Set(matching.values());
+  const ref = (graph: LogicalGraph, id: string): NodeRef => {
+    const node = graph.nodes.get(id)!;
+    return { id, label: node.label, span: node.span };
+  };
+  
+  // Position of a node relative to its matched neighbors, in second-graph ids
+  const adjacencyA = adjacency(a);
+  const adjacencyB = adjacency(b);
+  const context = (
+    neighbors: Map<string, Array<[string, string]>>,
+    id: string,
+    toB: (other: string) => string | undefined
+  ) => (neighbors.get(id) || [])
+    .filter(([, other]) => toB(other) !== undefined)
+    .map(([direction, other]) => `${direction}:${toB(other)}`)
+    .sort()
+    .join(',');
+  
+  const added = new Map<string, string>();  // Context -> unmatched second-graph id
+  for (const id of b.nodes.keys()) {
+    if (matchedB.has(id)) continue;
+    const key = context(adjacencyB, id, other => (matchedB.has(other) ? other : undefined));
+    if (key && !added.has(key)) added.set(key, id);
+  }
+  
+  const changes: NodeChange[] = [];
+  const relabeled = new Set<string>();
+  for (const id of a.nodes.keys()) {
+    if (matching.has(id)) continue;
+    const key = context(adjacencyA, id, other => matching.get(other));
+    const partner = key ? added.get(key) : undefined;
+    if (partner && !relabeled.has(partner)) {
+      relabeled.add(partner);
+      changes.push({ change: 'relabeled', before: ref(a, id), after: ref(b, partner) });
+    } else {
+      changes.push({ change: 'removed', before: ref(a, id) });
+    }
+  }
+  
+  for (const id of b.nodes.keys()) {
+    if (!matchedB.has(id) && !relabeled.has(id)) {
+      changes.push({ change: 'added', after: ref(b, id) });
+    }
+  }
+  
+  return changes;
+}
+
+function adjacency(graph: LogicalGraph): Map<string, Array<[string, string]>> {
+  const neighbors = new Map<string, Array<[string, string]>>();
+  const link = (id: string, direction: string, other: string) => {
+    const list = neighbors.get(id) || [];
+    list.push([direction, other]);
+    neighbors.set(id, list);
+  };
+  for (const edge of graph.edges) {
+    link(edge.from, `>${edge.type}`, edge.to);
+    link(edge.to, `<${edge.type}`, edge.from);
+  }
+  return neighbors;
+}
@@ -2,12 +2,11 @@
  * Factory for creating protein hashers with different configurations
  */
 
-import { ProteinHasher } from './protein-hasher';
-import { ProteinHashConfig } from './types';
+import { ProteinHasher, ProteinHasherOptions } from './protein-hasher';
 
 export type LanguageSupport = 'typescript' | 'javascript' | 'python' | 'rust';
 
-export interface ProteinHashOptions extends ProteinHashConfig {
+export interface ProteinHashOptions extends ProteinHasherOptions {
   language?: LanguageSupport;
 }
 
@@ -21,7 +20,7 @@ export function createHasher(options: ProteinHashOptions = {}): ProteinHasher {
     throw new Error(`Language ${options.language} not yet supported. Currently only TypeScript is supported.`);
   }
   
-  return new ProteinHasher();
+  return new ProteinHasher(options);
 }
 
 /**
@@ -0,0 +1,129 @@
+/**
+ * 🖼️ Graph Export - The logical graph in Graphviz DOT, GraphML and Mermaid
+ *
+ * Nodes are colored by GraphNode.type and edges styled by GraphEdge.type,
+ * identically in every format, so two folds can be inspected side by side.
+ */
+
+import { LogicalGraph } from './protein-hasher';
+import { NodeType, EdgeType } from './types';
+
+export const NODE_COLORS: Record<NodeType, string> = {
+  operation: '#8ecae6',
+  data: '#ffd166',
+  control: '#ef476f',
+  pure: '#06d6a0'
+};
+
+interface EdgeStyle {
+  dot: string;      // Graphviz style attribute
+  color: string;
+  mermaid: string;  // Mermaid link syntax
+}
+
+export const EDGE_STYLES: Record<EdgeType, EdgeStyle> = {
+  structure: { dot: 'solid', color: '#333333', mermaid: '-->' },
+  dataflow: { dot: 'dashed', color: '#1d70b8', mermaid: '-.->' },
+  control: { dot: 'bold', color: '#d62828', mermaid: '==>' },
+  dependency: { dot: 'dotted', color: '#777777', mermaid: '--o' }
+};
+
+/**
+ * Graphviz DOT (`dot -Tsvg graph.dot > graph.svg`)
+ */
+export function toDot(graph: LogicalGraph, name: string = 'LogicalGraph'): string {
+  const lines = [
+    `digraph ${quoteDot(name)} {`,
+    '  node [shape=box, style="rounded,filled", fontname="Helvetica"];',
+    '  edge [fontname="Helvetica", fontsize=9];'
+  ];
+  
+  for (const node of graph.nodes.values()) {
+    lines.push(`  ${quoteDot(node.id)} [label=${quoteDot(node.label)}, fillcolor="${NODE_COLORS[node.type]}"];`);
+  }
+  for (const edge of graph.edges) {
+    const style = EDGE_STYLES[edge.type];
+    lines.push(`  ${quoteDot(edge.from)} -> ${quoteDot(edge.to)} [style=${style.dot}, color="${style.color}", tooltip="${edge.type}"];`);
+  }
+  
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * GraphML with label, type, weight, color and source line attributes
+ */
+export function toGraphML(graph: LogicalGraph): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="ntype" for="node" attr.name="type" attr.type="string"/>',
+    '  <key id="nweight" for="node" attr.name="weight" attr.type="double"/>',
+    '  <key id="color" for="node" attr.name="color" attr.type="string"/>',
+    '  <key id="line" for="node" attr.name="line" attr.type="int"/>',
+    '  <key id="etype" for="edge" attr.name="type" attr.type="string"/>',
+    '  <key id="eweight" for="edge" attr.name="weight" attr.type="double"/>',
+    '  <graph id="LogicalGraph" edgedefault="directed">'
+  ];
+  
+  for (const node of graph.nodes.values()) {
+    lines.push(`    <node id="${escapeXml(node.id)}">`);
+    lines.push(`      <data key="label">${escapeXml(node.label)}</data>`);
+    lines.push(`      <data key="ntype">${node.type}</data>`);
+    lines.push(`      <data key="nweight">${node.weight}</data>`);
+    lines.push(`      <data key="color">${NODE_COLORS[node.type]}</data>`);
+    if (node.span) {
+      lines.push(`      <data key="line">${node.span.start.line}</data>`);
+    }
+    lines.push('    </node>');
+  }
+  graph.edges.forEach((edge, i) => {
+    lines.push(`    <edge id="e${i}" source="${escapeXml(edge.from)}" target="${escapeXml(edge.to)}">`);
+    lines.push(`      <data key="etype">${edge.type}</data>`);
+    lines.push(`      <data key="eweight">${edge.weight}</data>`);
+    lines.push('    </edge>');
+  });
+  
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Mermaid flowchart (renders in GitHub markdown)
+ */
+export function toMermaid(graph: LogicalGraph): string {
+  const lines = ['flowchart TD'];
+  
+  for (const node of graph.nodes.values()) {
+    lines.push(`  ${node.id}["${escapeMermaid(node.label)}"]:::${node.type}`);
+  }
+  for (const edge of graph.edges) {
+    lines.push(`  ${edge.from} ${EDGE_STYLES[edge.type].mermaid} ${edge.to}`);
+  }
+  
+  for (const [type, color] of Object.entries(NODE_COLORS)) {
+    lines.push(`  classDef ${type} fill:${color},stroke:#333`);
+  }
+  graph.edges.forEach((edge, i) => {
+    lines.push(`  linkStyle ${i} stroke:${EDGE_STYLES[edge.type].color}`);
+  });
+  
+  return lines.join('\n') + '\n';
+}
+
+function quoteDot(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function escapeMermaid(value: string): string {
+  return value.replace(/"/g, '#quot;');
+}
@@ -0,0 +1,49 @@
+/**
+ * 🧵 Hash Worker - One thread of the hashMany pool
+ *
+ * Builds a ProteinHasher from workerData and answers one job per message.
+ * Failures are reported per job, so one bad file never takes the pool down.
+ */
+
+import { readFileSync } from 'fs';
+import { parentPort, workerData } from 'worker_threads';
+import { ProteinHasher, ProteinHasherOptions, ProteinHashResult } from './protein-hasher';
+import type { BatchInput } from './batch';
+
+export interface WorkerJob {
+  index: number;
+  input: BatchInput;
+}
+
+export interface WorkerError {
+  name: string;
+  message: string;
+  stack?: string;
+  fields: Record<string, unknown>;  // Own properties (fileName, diagnostics, code, ...)
+}
+
+export type WorkerReply =
+  | { index: number; result: ProteinHashResult }
+  | { index: number; error: WorkerError };
+
+if (parentPort) {
+  const port = parentPort;
+  const hasher = new ProteinHasher(workerData as ProteinHasherOptions);
+  
+  port.on('message', ({ index, input }: WorkerJob) => {
+    let reply: WorkerReply;
+    try {
+      reply = {
+        index,
+        result: typeof input === 'string'
+          ? hasher.computeHash(input)
+          : hasher.computeHash(readFileSync(input.path, 'utf8'), { fileName: input.path })
+      };
+    } catch (error) {
+      const failure = error instanceof Error ? error : new Error(String(error));
+      const { name, message, stack } = failure;
+      reply = { index, error: { name, message, stack, fields: { ...failure } } };
+    }
+    port.postMessage(reply);
+  });
+}
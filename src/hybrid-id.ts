@@ -0,0 +1,83 @@
+/**
+ * 🔗 Hybrid IDs - What code does and exactly which bytes it is
+ *
+ * A hybrid identifier for FNPM pairs the phash (semantic identity) with a
+ * CIDv1 of the source bytes (exact identity): `<phash>|<cid>`. Both halves
+ * are computed locally and validated on parse.
+ */
+
+import { ProteinHasher, ProteinHasherOptions, SourceOptions } from './protein-hasher';
+import { computeCid, parseCid } from './cid';
+import { parsePhash } from './phash-format';
+import { isBuiltinWeightProfile } from './weight-profiles';
+import { HybridIdFormatError, HybridIdVerificationError } from './errors';
+
+export interface HybridIdOptions extends ProteinHasherOptions, SourceOptions {}
+
+export interface HybridIdVerification {
+  valid: boolean;          // Both halves match
+  phash: boolean;          // The code means the same (same structure, any formatting)
+  cid: boolean;            // The code is byte for byte the same
+}
+
+const SEPARATOR = '|';
+
+/**
+ * Hybrid ID of source text: its phash under the given options and its CIDv1
+ */
+export function createHybridId(code: string, options: HybridIdOptions = {}): string {
+  const { fileName, scriptKind, ...hasherOptions } = options;
+  const { phash } = new ProteinHasher(hasherOptions).computeHash(code, { fileName, scriptKind });
+  return generateHybridId(phash, computeCid(code));
+}
+
+/**
+ * Join a phash and a CID into a hybrid ID, validating both
+ */
+export function generateHybridId(phash: string, cid: string): string {
+  parsePhash(phash);
+  parseCid(cid);
+  return `${phash}${SEPARATOR}${cid}`;
+}
+
+/**
+ * Split a hybrid ID into its halves. Throws HybridIdFormatError for a
+ * malformed pair, PhashFormatError / PhashVersionError for the phash and
+ * CidFormatError for the CID.
+ */
+export function parseHybridId(hybridId: string): { phash: string; cid: string } {
+  const parts = hybridId.split(SEPARATOR);
+  if (parts.length !== 2) {
+    throw new HybridIdFormatError(`Expected '<phash>${SEPARATOR}<cid>', got ${parts.length} part(s)`, hybridId);
+  }
+  
+  const [phash, cid] = parts;
+  parsePhash(phash);
+  parseCid(cid);
+  return { phash, cid };
+}
+
+/**
+ * Check a snippet against a stored hybrid ID. The phash is recomputed with
+ * the settings encoded in the ID; `source` says how to parse the snippet.
+ * IDs hashed with a custom weight profile throw HybridIdVerificationError.
+ */
+export function verifyHybridId(code: string, hybridId: string, source: SourceOptions = {}): HybridIdVerification {
+  const { phash, cid } = parseHybridId(hybridId);
+  const { algorithm, settings } = parsePhash(phash);
+  
+  // Only the name of a custom profile is in the ID, not its weights
+  const profile = settings.weightProfile;
+  if (typeof profile === 'string' && !isBuiltinWeightProfile(profile)) {
+    throw new HybridIdVerificationError(
+      `Cannot verify ${hybridId}: it was hashed with the custom weight profile ${profile}`,
+      hybridId
+    );
+  }
+  
+  const hasher = new ProteinHasher({ ...settings, algorithm, enableAdvancedAnalysis: false, includeMetadata: false });
+  const phashMatches = hasher.computeHash(code, source).phash === phash;
+  const cidMatches = computeCid(code) === cid;
+  
+  return { valid: phashMatches && cidMatches, phash: phashMatches, cid: cidMatches };
+}
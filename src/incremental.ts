@@ -0,0 +1,208 @@
+/**
+ * ⚡ Incremental Hasher - Rehash on every keystroke without starting over
+ *
+ * Keeps the previous ts.SourceFile and reparses with ts.updateSourceFile,
+ * which reuses every node outside the edited range. Each subtree gets a
+ * Merkle hash over its kind, its own text and its children's hashes,
+ * memoized per node object, so only nodes on the edited path are rehashed.
+ * Function and file results are cached by Merkle hash: units whose text did
+ * not change are never rebuilt (only their source spans are moved along).
+ * Units that did change are reassembled from the graph fragments, operations
+ * and token counts of their unchanged statements (SubtreeCache), and the
+ * spectrum, topology and other graph results are reused while the graph
+ * stays the same. Results equal a full rehash.
+ */
+
+import * as ts from 'typescript';
+import {
+  ProteinHasher,
+  ProteinHasherOptions,
+  ProteinHashResult,
+  FileHashResult,
+  inferScriptKind
+} from './protein-hasher';
+import { SourceSpan, collectCodeUnits, getUnitName, moveSpan } from './source-units';
+import { SubtreeCache, SubtreeStats } from './subtree-cache';
+
+export interface TextEdit {
+  start: number;     // Offset in the current text
+  end: number;       // Exclusive end offset of the replaced range
+  newText: string;
+}
+
+export interface IncrementalStats {
+  reused: number;    // Results served from the Merkle cache by the last update
+  computed: number;  // Results computed by the last update
+  subtrees: SubtreeStats;  // Graph fragments, operations, token counts and graph analyses behind them
+}
+
+interface CachedResult {
+  result: ProteinHashResult;
+  line: number;      // 0-based start of the node the result was computed for
+  column: number;
+}
+
+export class IncrementalHasher {
+  private readonly hasher: ProteinHasher;
+  private readonly subtrees = new SubtreeCache();
+  private results = new Map<string, CachedResult>();
+  private sourceFile?: ts.SourceFile;
+  private stats = { reused: 0, computed: 0 };
+  
+  constructor(options: ProteinHasherOptions = {}, private readonly fileName: string = 'temp.ts') {
+    this.hasher = new ProteinHasher(options);
+    if (this.hasher.getConfig().typeAware) {
+      throw new Error('IncrementalHasher does not support type-aware hashing');
+    }
+  }
+  
+  /**
+   * Current source text
+   */
+  get text(): string {
+    return this.sourceFile?.text ?? '';
+  }
+  
+  /**
+   * Hash a new version of the text. The changed range is found by
+   * comparing with the previous version.
+   */
+  update(text: string): FileHashResult {
+    const previous = this.text;
+    let start = 0;
+    while (start < previous.length && start < text.length && previous[start] === text[start]) {
+      start++;
+    }
+    let end = 0;
+    while (end < previous.length - start && end < text.length - start &&
+           previous[previous.length - 1 - end] === text[text.length - 1 - end]) {
+      end++;
+    }
+    
+    return this.edit({ start, end: previous.length - end, newText: text.slice(start, text.length - end) });
+  }
+  
+  /**
+   * Apply a single edit to the current text and rehash
+   */
+  edit(change: TextEdit): FileHashResult {
+    const previous = this.text;
+    if (change.start < 0 || change.end < change.start || change.end > previous.length) {
+      throw new Error(`Edit range ${change.start}..${change.end} is outside the text (length ${previous.length})`);
+    }
+    
+    const text = previous.slice(0, change.start) + change.newText + previous.slice(change.end);
+    this.sourceFile = this.sourceFile
+      ? ts.updateSourceFile(this.sourceFile, text, {
+        span: { start: change.start, length: change.end - change.start },
+        newLength: change.newText.length
+      })
+      : ts.createSourceFile(this.fileName, text, ts.ScriptTarget.Latest, true, inferScriptKind(this.fileName));
+    
+    return this.hashCurrent();
+  }
+  
+  /**
+   * Cache statistics of the last update
+   */
+  getStats(): IncrementalStats {
+    return { ...this.stats, subtrees: this.subtrees.getStats() };
+  }
+  
+  /**
+   * Merkle hash of a subtree of the current tree: its kind, the text between
+   * its children and the children's own hashes. Equal hashes mean equal text.
+   */
+  merkleHash(node: ts.Node): string {
+    return this.subtrees.merkleHash(node);
+  }
+  
+  private hashCurrent(): FileHashResult {
+    const sourceFile = this.sourceFile!;
+    const previous = this.results;
+    this.results = new Map();
+    this.stats = { reused: 0, computed: 0 };
+    this.subtrees.nextGeneration();
+    
+    const hash = (node: ts.Node): ProteinHashResult => {
+      const key = `${this.merkleHash(node)}|${this.contextOf(node)}`;
+      const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+      const cached = this.results.get(key) ?? previous.get(key);
+      
+      let result = cached && this.reuse(cached, line, character);
+      if (result) {
+        this.stats.reused++;
+      } else {
+        result = this.hasher.hashAst(node, this.subtrees);
+        this.stats.computed++;
+      }
+      this.results.set(key, { result, line, column: character });
+      return result;
+    };
+    
+    return {
+      fileName: this.fileName,
+      file: hash(sourceFile),
+      functions: collectCodeUnits(sourceFile).map(unit => ({
+        name: unit.name,
+        kind: unit.kind,
+        span: unit.span,
+        hash: hash(unit.node)
+      }))
+    };
+  }
+  
+  /**
+   * What a unit's result reads outside its own text: its qualified name
+   * (enclosing classes and the binding it is assigned to), the kind of
+   * that binding, which decides whether calling the name is recursion, and
+   * for arrows the function whose `this` they write to
+   */
+  private contextOf(node: ts.Node): string {
+    if (ts.isSourceFile(node)) return '';
+    
+    let thisOwner: ts.Node = node;
+    if (ts.isArrowFunction(node)) {
+      do {
+        thisOwner = thisOwner.parent;
+      } while (!ts.isSourceFile(thisOwner) && !(ts.isFunctionLike(thisOwner) && !ts.isArrowFunction(thisOwner)));
+    }
+    return `${getUnitName(node)}|${ts.SyntaxKind[node.parent.kind]}|${ts.SyntaxKind[thisOwner.kind]}`;
+  }
+  
+  /**
+   * A cached result for the same text at another position. Spans move with
+   * the lines; a changed start column (spans on the first line) and side
+   * effects judged by declarations outside the node require a rehash.
+   */
+  private reuse(cached: CachedResult, line: number, column: number): ProteinHashResult | undefined {
+    const { result } = cached;
+    if (column !== cached.column || result.impurities.some(reason => reason.kind !== 'parameter-mutation')) {
+      return undefined;
+    }
+    
+    const delta = line - cached.line;
+    if (delta === 0 || (!result.graph && result.impurities.length === 0 && result.diagnostics.length === 0 &&
+                        result.metrics.functions.length === 0)) {
+      return result;
+    }
+    
+    const shift = (span: SourceSpan): SourceSpan => moveSpan(span, delta);
+    const shifted: ProteinHashResult = {
+      ...result,
+      impurities: result.impurities.map(reason => ({ ...reason, span: shift(reason.span) })),
+      diagnostics: result.diagnostics.map(diagnostic => ({ ...diagnostic, span: shift(diagnostic.span) })),
+      metrics: {
+        ...result.metrics,
+        functions: result.metrics.functions.map(unit => ({ ...unit, span: shift(unit.span) }))
+      }
+    };
+    if (result.graph) {
+      shifted.graph = {
+        nodes: new Map(Array.from(result.graph.nodes, ([id, node]) => [id, node.span ? { ...node, span: shift(node.span) } : node])),
+        edges: result.graph.edges
+      };
+    }
+    return shifted;
+  }
+}
@@ -10,14 +10,46 @@
 
 export { 
   ProteinHasher,
+  ProteinHasherOptions,
+  SourceOptions,
   ProteinHashResult,
+  CodeUnitHashResult,
+  FileHashResult,
   LogicalGraph,
   GraphNode,
   GraphEdge,
-  generateHybridId,
-  parseHybridId
+  inferScriptKind,
+  ALGORITHM_VERSION
 } from './protein-hasher';
 
+export {
+  HybridIdOptions,
+  HybridIdVerification,
+  createHybridId,
+  generateHybridId,
+  parseHybridId,
+  verifyHybridId
+} from './hybrid-id';
+
+export {
+  PhashTree,
+  PhashTreeKind,
+  PhashTreeChange,
+  PHASH_TREE_FORMAT_VERSION,
+  buildPhashTree,
+  diffPhashTrees,
+  serializePhashTree,
+  deserializePhashTree
+} from './phash-tree';
+
+export {
+  ParsedCid,
+  RAW_CODEC,
+  SHA2_256,
+  computeCid,
+  parseCid
+} from './cid';
+
 export {
   ProteinHashOptions,
   LanguageSupport,
@@ -33,6 +65,160 @@ export {
 
 export * from './types';
 
+export {
+  ParsedPhash,
+  PhashParts,
+  PHASH_VERSION,
+  SUPPORTED_PHASH_VERSIONS,
+  formatPhash,
+  parsePhash,
+  isValidPhash,
+  readPhashVersion,
+  negotiateVersion
+} from './phash-format';
+
+export {
+  LSH_BITS,
+  computeLsh,
+  hammingDistance,
+  lshSimilarity,
+  lshBuckets
+} from './lsh';
+
+export {
+  DEFAULT_WL_ITERATIONS,
+  wlColorRounds,
+  wlFeatures,
+  wlHash
+} from './wl-hash';
+
+export {
+  NodeChangeKind,
+  NodeRef,
+  NodeChange,
+  DifferenceExplanation,
+  explainDifference,
+  alignGraphs
+} from './explain';
+
+export {
+  ScoreComponent,
+  ScoreBreakdown,
+  scoreBreakdown,
+  SimilarityStrategy,
+  SimilarityOptions,
+  WeightedStrategy,
+  SIMILARITY_STRATEGIES,
+  DEFAULT_SIMILARITY_STRATEGY,
+  resolveSimilarityStrategy,
+  compositeStrategy
+} from './similarity';
+
+export {
+  IncrementalHasher,
+  TextEdit,
+  IncrementalStats
+} from './incremental';
+
+export {
+  SubtreeCache,
+  SubtreeStats,
+  isSubtreeRoot
+} from './subtree-cache';
+
+export {
+  BatchInput,
+  BatchResult,
+  HashManyOptions,
+  hashMany
+} from './batch';
+
+export {
+  ResultCache,
+  ResultCacheOptions,
+  CacheStats,
+  CacheVerifyReport
+} from './cache';
+
+export {
+  NODE_COLORS,
+  EDGE_STYLES,
+  toDot,
+  toGraphML,
+  toMermaid
+} from './graph-export';
+
+export {
+  RESULT_SCHEMA_VERSION,
+  RESULT_SCHEMA,
+  serializeResult,
+  deserializeResult,
+  serializeGraph,
+  deserializeGraph,
+  canonicalJson
+} from './serialization';
+
+export {
+  ProteinHashError,
+  PhashFormatError,
+  PhashVersionError,
+  SerializationError,
+  ProteinHashParseError,
+  CidFormatError,
+  HybridIdFormatError,
+  HybridIdVerificationError
+} from './errors';
+
+export {
+  PurityAnalyzer,
+  PurityReport,
+  ImpurityReason,
+  ImpurityKind
+} from './purity-analyzer';
+
+export {
+  MetricsAnalyzer,
+  CodeMetrics,
+  FunctionMetrics,
+  ComplexityMetrics,
+  HalsteadMetrics
+} from './metrics';
+
+export {
+  ParseDiagnostic,
+  getParseDiagnostics
+} from './diagnostics';
+
+export {
+  CodeUnitKind,
+  SourcePosition,
+  SourceSpan
+} from './source-units';
+
+export {
+  TypeCategory,
+  CalleePurity,
+  ResolvedCallee,
+  TypeResolver,
+  calleePurity,
+  createProgramFromConfig
+} from './type-resolver';
+
+export {
+  WeightProfile,
+  WeightedNode,
+  WEIGHT_PROFILES,
+  DEFAULT_WEIGHT_PROFILE,
+  resolveWeightProfile,
+  isBuiltinWeightProfile
+} from './weight-profiles';
+
+export {
+  ResolvedConfig,
+  DEFAULT_CONFIG,
+  resolveConfig
+} from './config';
+
 // Advanced analysis modules
 export { 
   TopologyDetector, 
@@ -0,0 +1,128 @@
+/**
+ * 🔍 Locality-Sensitive Fingerprint - SimHash over graph labels and spectrum
+ *
+ * Unlike the phash (a cryptographic digest), nearby graphs get nearby
+ * fingerprints: the Hamming distance between two LSH values grows with the
+ * structural difference, so near-duplicates can be found with bit-bucket
+ * lookups in a plain key-value store.
+ */
+
+import { createHash } from 'crypto';
+import { LogicalGraph } from './protein-hasher';
+
+export const LSH_BITS = 64;
+const HEX_LENGTH = LSH_BITS / 4;
+const SPECTRUM_BIN_WIDTH = 0.25;  // Eigenvalue resolution of the spectrum features
+const SPECTRUM_SHARE = 0.5;       // Spectrum weight relative to label features
+
+/**
+ * Compute a 64-bit SimHash (16 hex chars) of a logical graph and its spectrum
+ */
+export function computeLsh(graph: LogicalGraph, eigenvalues: number[]): string {
+  const features = new Map<string, number>();
+  const add = (feature: string, weight: number) => {
+    features.set(feature, (features.get(feature) || 0) + weight);
+  };
+  
+  // Node labels
+  for (const node of graph.nodes.values()) {
+    add(`n:${node.label}`, 1);
+  }
+  
+  // Labeled edges (label bigrams)
+  for (const edge of graph.edges) {
+    const from = graph.nodes.get(edge.from);
+    const to = graph.nodes.get(edge.to);
+    if (from && to) {
+      add(`e:${edge.type}:${from.label}>${to.label}`, 1);
+    }
+  }
+  
+  // Spectrum bins, linearly split between the two nearest bins so that
+  // a small eigenvalue shift only moves a little weight
+  let labelMass = 0;
+  for (const weight of features.values()) labelMass += weight;
+  const perEigenvalue = eigenvalues.length > 0
+    ? (labelMass * SPECTRUM_SHARE) / eigenvalues.length
+    : 0;
+  
+  eigenvalues.forEach((value, i) => {
+    const position = value / SPECTRUM_BIN_WIDTH;
+    const lower = Math.floor(position);
+    const fraction = position - lower;
+    add(`s:${i}:${lower}`, perEigenvalue * (1 - fraction));
+    add(`s:${i}:${lower + 1}`, perEigenvalue * fraction);
+  });
+  
+  // Weighted bit voting
+  const votes = new Array<number>(LSH_BITS).fill(0);
+  for (const [feature, weight] of Array.from(features).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))) {
+    const digest = createHash('sha256').update(feature).digest();
+    for (let bit = 0; bit < LSH_BITS; bit++) {
+      const set = (digest[bit >> 3] >> (7 - (bit & 7))) & 1;
+      votes[bit] += set ? weight : -weight;
+    }
+  }
+  
+  let hex = '';
+  for (let nibble = 0; nibble < HEX_LENGTH; nibble++) {
+    let value = 0;
+    for (let bit = 0; bit < 4; bit++) {
+      value = (value << 1) | (votes[nibble * 4 + bit] > 0 ? 1 : 0);
+    }
+    hex += value.toString(16);
+  }
+  
+  return hex;
+}
+
+/**
+ * Number of differing bits between two LSH fingerprints
+ */
+export function hammingDistance(lsh1: string, lsh2: string): number {
+  assertLsh(lsh1);
+  assertLsh(lsh2);
+  
+  let distance = 0;
+  for (let i = 0; i < HEX_LENGTH; i++) {
+    let diff = parseInt(lsh1[i], 16) ^ parseInt(lsh2[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  
+  return distance;
+}
+
+/**
+ * Similarity in [0, 1] derived from the Hamming distance
+ */
+export function lshSimilarity(lsh1: string, lsh2: string): number {
+  return 1 - hammingDistance(lsh1, lsh2) / LSH_BITS;
+}
+
+/**
+ * Split a fingerprint into band keys for a key-value index.
+ * Two fingerprints sharing any band key are near-duplicate candidates.
+ */
+export function lshBuckets(lsh: string, bands: number = 4): string[] {
+  assertLsh(lsh);
+  if (!Number.isInteger(bands) || bands < 1 || HEX_LENGTH % bands !== 0) {
+    throw new Error(`bands must divide ${HEX_LENGTH}, got ${bands}`);
+  }
+  
+  const width = HEX_LENGTH / bands;
+  const buckets: string[] = [];
+  for (let band = 0; band < bands; band++) {
+    buckets.push(`${band}:${lsh.substring(band * width, (band + 1) * width)}`);
+  }
+  
+  return buckets;
+}
+
+function assertLsh(lsh: string): void {
+  if (!/^[0-9a-f]{16}$/.test(lsh)) {
+    throw new Error(`LSH fingerprint must be ${HEX_LENGTH} lowercase hex characters, got '${lsh}'`);
+  }
+}
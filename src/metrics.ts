@@ -0,0 +1,328 @@
+/**
+ * 📏 Code Metrics - Cyclomatic, cognitive and Halstead complexity
+ *
+ * McCabe cyclomatic complexity counts decision points, cognitive complexity
+ * (SonarSource) weighs breaks in linear flow by how deeply they are nested,
+ * and Halstead metrics measure the vocabulary of operators and operands.
+ * Every function is measured on its own and the subtree as a whole.
+ */
+
+import * as ts from 'typescript';
+import { CodeUnitKind, SourceSpan, getSpan, getUnitKind, getUnitName } from './source-units';
+import { isTypeOnly, skipTypeAssertions } from './type-erasure';
+import { SubtreeCache, isSubtreeRoot } from './subtree-cache';
+
+export interface HalsteadMetrics {
+  distinctOperators: number;  // n1
+  distinctOperands: number;   // n2
+  operators: number;          // N1
+  operands: number;           // N2
+  vocabulary: number;         // n1 + n2
+  length: number;             // N1 + N2
+  volume: number;             // length * log2(vocabulary)
+  difficulty: number;         // n1 / 2 * N2 / n2
+  effort: number;             // difficulty * volume
+}
+
+export interface ComplexityMetrics {
+  cyclomatic: number;
+  cognitive: number;
+  halstead: HalsteadMetrics;
+}
+
+export interface FunctionMetrics extends ComplexityMetrics {
+  name: string;
+  kind: Exclude<CodeUnitKind, 'class'>;
+  span: SourceSpan;
+}
+
+export interface CodeMetrics extends ComplexityMetrics {
+  functions: FunctionMetrics[];   // Every function, method and arrow in document order
+}
+
+const LOOPS = new Set<ts.SyntaxKind>([
+  ts.SyntaxKind.ForStatement,
+  ts.SyntaxKind.ForInStatement,
+  ts.SyntaxKind.ForOfStatement,
+  ts.SyntaxKind.WhileStatement,
+  ts.SyntaxKind.DoStatement
+]);
+
+const LOGICAL_OPERATORS = new Set<ts.SyntaxKind>([
+  ts.SyntaxKind.AmpersandAmpersandToken,
+  ts.SyntaxKind.BarBarToken,
+  ts.SyntaxKind.QuestionQuestionToken
+]);
+
+const LOGICAL_ASSIGNMENTS = new Set<ts.SyntaxKind>([
+  ts.SyntaxKind.AmpersandAmpersandEqualsToken,
+  ts.SyntaxKind.BarBarEqualsToken,
+  ts.SyntaxKind.QuestionQuestionEqualsToken
+]);
+
+// Closing halves of pairs, counted with their opening token
+const CLOSING_TOKENS = new Set<ts.SyntaxKind>([
+  ts.SyntaxKind.CloseParenToken,
+  ts.SyntaxKind.CloseBracketToken,
+  ts.SyntaxKind.CloseBraceToken,
+  ts.SyntaxKind.EndOfFileToken
+]);
+
+const OPERAND_KEYWORDS = new Set<ts.SyntaxKind>([
+  ts.SyntaxKind.TrueKeyword,
+  ts.SyntaxKind.FalseKeyword,
+  ts.SyntaxKind.NullKeyword,
+  ts.SyntaxKind.ThisKeyword,
+  ts.SyntaxKind.SuperKeyword
+]);
+
+type FunctionNode = ts.SignatureDeclaration & { body?: ts.Node };
+
+// How often every operator and operand token occurs
+interface TokenCounts {
+  operators: Map<string, number>;
+  operands: Map<string, number>;
+}
+
+export class MetricsAnalyzer {
+  constructor(private readonly eraseTypes: boolean = false) {}
+  
+  /**
+   * Metrics of a subtree (a whole file or one unit of it) and of every
+   * function inside it. A cache keeps the token counts of statements and
+   * class members.
+   */
+  analyze(root: ts.Node, cache?: SubtreeCache): CodeMetrics {
+    const sourceFile = root.getSourceFile();
+    const functions: FunctionMetrics[] = [];
+    
+    const visit = (node: ts.Node) => {
+      const kind = getUnitKind(node);
+      if (kind && kind !== 'class') {
+        functions.push({
+          name: getUnitName(node),
+          kind,
+          span: getSpan(node, sourceFile),
+          cyclomatic: 1 + this.decisionPoints(node),
+          cognitive: this.cognitive(node, true),
+          halstead: this.halstead(node, sourceFile, cache)
+        });
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(root);
+    
+    // The total sums every function; code outside them counts as one more
+    // unit, if it branches at all
+    const outside = isFunction(root) ? 0 : this.decisionPoints(root);
+    const cyclomatic = sum(functions.map(unit => unit.cyclomatic)) + (outside > 0 ? 1 + outside : 0);
+    
+    // A function root was measured as the first function already
+    const own = isFunction(root) ? functions[0] : undefined;
+    return {
+      cyclomatic: Math.max(1, cyclomatic),
+      cognitive: own ? own.cognitive : this.cognitive(root, false),
+      halstead: own ? own.halstead : this.halstead(root, sourceFile, cache),
+      functions
+    };
+  }
+  
+  /**
+   * Branches and short circuits of a node, not counting nested functions
+   */
+  private decisionPoints(node: ts.Node): number {
+    let count = 0;
+    const visit = (child: ts.Node) => {
+      if (isFunction(child)) return;
+      if (ts.isIfStatement(child) || ts.isConditionalExpression(child) || LOOPS.has(child.kind) ||
+          ts.isCaseClause(child) || ts.isCatchClause(child)) {
+        count++;
+      } else if (ts.isBinaryExpression(child) &&
+                 (LOGICAL_OPERATORS.has(child.operatorToken.kind) || LOGICAL_ASSIGNMENTS.has(child.operatorToken.kind))) {
+        count++;
+      }
+      ts.forEachChild(child, visit);
+    };
+    
+    if (isFunction(node)) {
+      ts.forEachChild(node, visit);
+    } else {
+      visit(node);
+    }
+    return count;
+  }
+  
+  /**
+   * Cognitive complexity: +1 per break in linear flow, plus its nesting
+   * level for structures that nest; nested functions deepen the nesting
+   */
+  private cognitive(root: ts.Node, rootInFunction: boolean): number {
+    let total = 0;
+    
+    const visit = (node: ts.Node, nesting: number, inFunction: boolean, self: string | undefined): void => {
+      const children = (child: ts.Node | undefined, childNesting: number) => {
+        if (child) visit(child, childNesting, inFunction, self);
+      };
+      
+      if (isFunction(node) && node !== root) {
+        ts.forEachChild(node, child => visit(child, nesting + (inFunction ? 1 : 0), true, functionName(node)));
+        return;
+      }
+      
+      if (ts.isIfStatement(node)) {
+        const elseIf = ts.isIfStatement(node.parent) && node.parent.elseStatement === node;
+        total += elseIf ? 1 : 1 + nesting;
+        children(node.expression, nesting);
+        children(node.thenStatement, nesting + 1);
+        if (node.elseStatement && ts.isIfStatement(node.elseStatement)) {
+          children(node.elseStatement, nesting);
+        } else if (node.elseStatement) {
+          total++;
+          children(node.elseStatement, nesting + 1);
+        }
+        return;
+      }
+      if (LOOPS.has(node.kind)) {
+        total += 1 + nesting;
+        const body = (node as ts.IterationStatement).statement;
+        ts.forEachChild(node, child => children(child, child === body ? nesting + 1 : nesting));
+        return;
+      }
+      if (ts.isConditionalExpression(node)) {
+        total += 1 + nesting;
+        children(node.condition, nesting);
+        children(node.whenTrue, nesting + 1);
+        children(node.whenFalse, nesting + 1);
+        return;
+      }
+      if (ts.isSwitchStatement(node)) {
+        total += 1 + nesting;
+        children(node.expression, nesting);
+        children(node.caseBlock, nesting + 1);
+        return;
+      }
+      if (ts.isCatchClause(node)) {
+        total += 1 + nesting;
+        ts.forEachChild(node, child => children(child, nesting + 1));
+        return;
+      }
+      
+      // A run of the same logical operator counts once: a && b && c
+      if (ts.isBinaryExpression(node) && LOGICAL_OPERATORS.has(node.operatorToken.kind) &&
+          !(ts.isBinaryExpression(node.parent) && node.parent.operatorToken.kind === node.operatorToken.kind)) {
+        total++;
+      }
+      if ((ts.isBreakStatement(node) || ts.isContinueStatement(node)) && node.label) {
+        total++;
+      }
+      if (ts.isCallExpression(node) && self && ts.isIdentifier(node.expression) && node.expression.text === self) {
+        total++;  // Recursion
+      }
+      
+      ts.forEachChild(node, child => children(child, nesting));
+    };
+    
+    visit(root, 0, rootInFunction, isFunction(root) ? functionName(root) : undefined);
+    return total;
+  }
+  
+  /**
+   * Halstead metrics over the tokens of a node: identifiers, literals,
+   * `this` and `super` are operands, every other token an operator
+   */
+  private halstead(root: ts.Node, sourceFile: ts.SourceFile, cache?: SubtreeCache): HalsteadMetrics {
+    const { operators, operands } = cache && isSubtreeRoot(root)
+      ? cache.forSubtree('tokens', root, () => this.countTokens(root, sourceFile, cache))
+      : this.countTokens(root, sourceFile, cache);
+    
+    const n1 = operators.size;
+    const n2 = operands.size;
+    const N1 = sum(operators.values());
+    const N2 = sum(operands.values());
+    const vocabulary = n1 + n2;
+    const length = N1 + N2;
+    const volume = vocabulary > 0 ? length * Math.log2(vocabulary) : 0;
+    const difficulty = n2 > 0 ? (n1 / 2) * (N2 / n2) : 0;
+    
+    return {
+      distinctOperators: n1,
+      distinctOperands: n2,
+      operators: N1,
+      operands: N2,
+      vocabulary,
+      length,
+      volume,
+      difficulty,
+      effort: difficulty * volume
+    };
+  }
+  
+  /**
+   * Operator and operand tokens of a node. Counts of statements and class
+   * members come from the cache when one is given.
+   */
+  private countTokens(root: ts.Node, sourceFile: ts.SourceFile, cache?: SubtreeCache): TokenCounts {
+    const counts: TokenCounts = { operators: new Map(), operands: new Map() };
+    const count = (map: Map<string, number>, key: string, times: number = 1) => map.set(key, (map.get(key) ?? 0) + times);
+    
+    const visit = (node: ts.Node) => {
+      if (cache && node !== root && isSubtreeRoot(node)) {
+        const cached = cache.forSubtree('tokens', node, () => this.countTokens(node, sourceFile, cache));
+        cached.operators.forEach((times, key) => count(counts.operators, key, times));
+        cached.operands.forEach((times, key) => count(counts.operands, key, times));
+        return;
+      }
+      if (ts.isJSDoc(node) || (this.eraseTypes && isTypeOnly(node))) return;
+      if (this.eraseTypes && skipTypeAssertions(node) !== node) {
+        visit(skipTypeAssertions(node));  // Parentheses that only hold an assertion go too
+        return;
+      }
+      
+      if (ts.isToken(node)) {
+        if (ts.isIdentifier(node) || ts.isPrivateIdentifier(node) || isLiteralToken(node.kind) || OPERAND_KEYWORDS.has(node.kind)) {
+          count(counts.operands, node.getText(sourceFile));
+        } else if (!CLOSING_TOKENS.has(node.kind)) {
+          count(counts.operators, ts.tokenToString(node.kind) ?? ts.SyntaxKind[node.kind]);
+        }
+        return;
+      }
+      // Erased type argument / parameter lists take their brackets and commas along
+      const { typeArguments, typeParameters } = node as { typeArguments?: ts.NodeArray<ts.Node>; typeParameters?: ts.NodeArray<ts.Node> };
+      const typeLists = this.eraseTypes ? [typeArguments, typeParameters].filter(list => list !== undefined) : [];
+      
+      for (const child of node.getChildren(sourceFile)) {
+        // The colon of an erased annotation goes with it
+        if (this.eraseTypes && child.kind === ts.SyntaxKind.ColonToken && (node as { type?: ts.Node }).type) continue;
+        if (typeLists.some(list => child.end === list.pos || child.pos === list.end || (child.pos === list.pos && child.end === list.end))) continue;
+        visit(child);
+      }
+    };
+    visit(root);
+    
+    return counts;
+  }
+}
+
+function isLiteralToken(kind: ts.SyntaxKind): boolean {
+  return (kind >= ts.SyntaxKind.FirstLiteralToken && kind <= ts.SyntaxKind.LastLiteralToken) ||
+         (kind >= ts.SyntaxKind.FirstTemplateToken && kind <= ts.SyntaxKind.LastTemplateToken);
+}
+
+function isFunction(node: ts.Node): node is FunctionNode {
+  const kind = getUnitKind(node);
+  return kind !== null && kind !== 'class';
+}
+
+/**
+ * Name a function calls itself by: its own, or the variable holding it
+ */
+function functionName(node: FunctionNode): string | undefined {
+  const name = node.name ?? (ts.isVariableDeclaration(node.parent) ? node.parent.name : undefined);
+  return name && ts.isIdentifier(name) ? name.text : undefined;
+}
+
+function sum(values: Iterable<number>): number {
+  let total = 0;
+  for (const value of values) total += value;
+  return total;
+}
@@ -0,0 +1,164 @@
+/**
+ * 🏷️ Phash Format - Parsing, formatting and version negotiation
+ *
+ * Wire format:
+ *   phash:<version>:<algorithm>:<digest>            (default config)
+ *   phash:<version>:<algorithm>:<config>:<digest>   (config fingerprint, e.g. k10.q10000)
+ */
+
+import { getHashes } from 'crypto';
+import { HashAlgorithm, ProteinHashConfig } from './types';
+import { configFingerprint, parseConfigFingerprint, resolveConfig, DEFAULT_CONFIG } from './config';
+import { PhashFormatError, PhashVersionError } from './errors';
+
+export const PHASH_VERSION = 'v1';
+export const SUPPORTED_PHASH_VERSIONS: readonly string[] = [PHASH_VERSION];
+
+// Digest algorithms the hasher can produce in this Node.js build
+const HASH_ALGORITHMS: readonly HashAlgorithm[] = (['sha256', 'sha512', 'blake3'] as HashAlgorithm[])
+  .filter(algorithm => getHashes().includes(algorithm));
+const DIGEST_PATTERN = /^[0-9a-f]{16}$/;
+const VERSION_PATTERN = /^v[1-9][0-9]*$/;
+const CONFIG_PATTERN = /^[a-z][a-z0-9-]*(\.[a-z][a-z0-9-]*)*$/;
+
+export interface ParsedPhash {
+  version: string;
+  algorithm: HashAlgorithm;
+  config: string;                        // Config fingerprint, '' for defaults
+  settings: ProteinHashConfig;           // Hash-affecting settings decoded from `config`
+  digest: string;
+}
+
+export interface PhashParts {
+  version?: string;
+  algorithm: HashAlgorithm;
+  config?: string;
+  digest: string;
+}
+
+/**
+ * Build a phash string, validating every part
+ */
+export function formatPhash(parts: PhashParts): string {
+  const version = parts.version ?? PHASH_VERSION;
+  const config = parts.config ?? '';
+  const segments = ['phash', version, parts.algorithm, ...(config ? [config] : []), parts.digest];
+  const phash = segments.join(':');
+  
+  // Round-trip through the parser so both directions share one set of rules
+  parsePhash(phash);
+  return phash;
+}
+
+/**
+ * Parse and strictly validate a phash string
+ */
+export function parsePhash(phash: string): ParsedPhash {
+  const version = readPhashVersion(phash);
+  assertSupported(version);
+  
+  const segments = phash.split(':');
+  if (segments.length !== 4 && segments.length !== 5) {
+    throw new PhashFormatError(
+      `Expected 4 or 5 ':'-separated segments in ${version} phash, got ${segments.length}`,
+      phash
+    );
+  }
+  
+  const algorithm = segments[2] as HashAlgorithm;
+  if (!HASH_ALGORITHMS.includes(algorithm)) {
+    throw new PhashFormatError(`Unsupported digest algorithm '${segments[2]}'`, phash);
+  }
+  
+  const config = segments.length === 5 ? segments[3] : '';
+  if (segments.length === 5 && !CONFIG_PATTERN.test(config)) {
+    throw new PhashFormatError(`Malformed config fingerprint '${config}'`, phash);
+  }
+  
+  const settings = parseConfigFingerprint(config);
+  if (!settings) {
+    throw new PhashFormatError(`Unknown setting in config fingerprint '${config}'`, phash);
+  }
+  
+  // The hasher writes exactly one fingerprint per config: no defaults,
+  // duplicates, reordering or settings that have no effect
+  const canonical = canonicalFingerprint(settings);
+  if (config !== canonical) {
+    throw new PhashFormatError(`Non-canonical config fingerprint '${config}', expected '${canonical}'`, phash);
+  }
+  
+  const digest = segments[segments.length - 1];
+  if (!DIGEST_PATTERN.test(digest)) {
+    throw new PhashFormatError(`Digest must be 16 lowercase hex characters, got '${digest}'`, phash);
+  }
+  
+  return { version, algorithm, config, settings, digest };
+}
+
+/**
+ * Check a phash without throwing
+ */
+export function isValidPhash(phash: string): boolean {
+  try {
+    parsePhash(phash);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read only the format version; the rest of the layout is version-specific
+ */
+export function readPhashVersion(phash: string): string {
+  const segments = typeof phash === 'string' ? phash.split(':') : [];
+  
+  if (segments[0] !== 'phash' || segments.length < 2) {
+    throw new PhashFormatError(`Not a phash: '${phash}'`, String(phash));
+  }
+  if (!VERSION_PATTERN.test(segments[1])) {
+    throw new PhashFormatError(`Malformed phash version '${segments[1]}'`, phash);
+  }
+  
+  return segments[1];
+}
+
+/**
+ * Agree on a common format version before two phashes are compared.
+ * Throws instead of letting mismatched formats degrade into a low similarity.
+ */
+export function negotiateVersion(phash1: string, phash2: string): string {
+  const version1 = readPhashVersion(phash1);
+  const version2 = readPhashVersion(phash2);
+  
+  assertSupported(version1);
+  assertSupported(version2);
+  
+  if (version1 !== version2) {
+    throw new PhashVersionError(
+      `Cannot compare phash ${version1} with phash ${version2}`,
+      [version1, version2]
+    );
+  }
+  
+  return version1;
+}
+
+/**
+ * Fingerprint the hasher writes for decoded settings. Custom weight profiles
+ * only travel by name, so the name is carried over without resolving it.
+ */
+function canonicalFingerprint(settings: ProteinHashConfig): string {
+  const { weightProfile = DEFAULT_CONFIG.weightProfile, ...rest } = settings;
+  const resolved = resolveConfig(rest);
+  return configFingerprint({ ...resolved, weightProfile: weightProfile as string });
+}
+
+function assertSupported(version: string): void {
+  if (!SUPPORTED_PHASH_VERSIONS.includes(version)) {
+    throw new PhashVersionError(
+      `Unsupported phash version ${version} (supported: ${SUPPORTED_PHASH_VERSIONS.join(', ')})`,
+      [version]
+    );
+  }
+}
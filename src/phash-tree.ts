@@ -0,0 +1,225 @@
+/**
+ * 🌳 Phash Tree - One fingerprint at file, class and method resolution
+ *
+ * Every node of the tree (the file, its classes, their methods, functions
+ * and arrow functions nested by source position) carries its own phash and
+ * a Merkle digest over its phash and the digests of its children. Equal
+ * digests mean equal semantics all the way down, so a diff only descends
+ * into subtrees that changed.
+ */
+
+import { createHash } from 'crypto';
+import { FileHashResult } from './protein-hasher';
+import { CodeUnitKind, SourcePosition, SourceSpan } from './source-units';
+import { canonicalJson } from './serialization';
+import { parsePhash } from './phash-format';
+import { SerializationError } from './errors';
+
+export type PhashTreeKind = 'file' | CodeUnitKind;
+
+export interface PhashTree {
+  name: string;
+  kind: PhashTreeKind;
+  span?: SourceSpan;           // Source location (units only)
+  phash: string;               // Fingerprint of this node's code, children included
+  digest: string;              // Merkle digest of the phash and the children's digests (hex)
+  children: PhashTree[];       // Directly nested units in document order
+}
+
+export interface PhashTreeChange {
+  change: 'modified' | 'added' | 'removed' | 'renamed';
+  kind: PhashTreeKind;
+  path: string[];              // Names from the file down to the node (new names for renames)
+  before?: PhashTree;
+  after?: PhashTree;
+}
+
+export const PHASH_TREE_FORMAT_VERSION = 1;
+
+// Serialized node: [name, kind, phash digest, Merkle digest, children, span?]
+type CompactNode = [string, PhashTreeKind, string, string, CompactNode[], number[]?];
+
+const TREE_KINDS: readonly PhashTreeKind[] = ['file', 'class', 'function', 'method', 'arrow'];
+const HEX16 = /^[0-9a-f]{16}$/;
+
+/**
+ * Nest the per-unit results of hashFunctions / hashFile into a phash tree
+ */
+export function buildPhashTree(result: FileHashResult): PhashTree {
+  const { algorithm } = parsePhash(result.file.phash);
+  const root: PhashTree = { name: result.fileName, kind: 'file', phash: result.file.phash, digest: '', children: [] };
+  
+  // Units come in document order, so every unit's parent is on the stack
+  const stack: PhashTree[] = [];
+  for (const unit of result.functions) {
+    while (stack.length > 0 && !contains(stack[stack.length - 1].span!, unit.span)) {
+      stack.pop();
+    }
+    const node: PhashTree = { name: unit.name, kind: unit.kind, span: unit.span, phash: unit.hash.phash, digest: '', children: [] };
+    (stack[stack.length - 1] ?? root).children.push(node);
+    stack.push(node);
+  }
+  
+  const seal = (node: PhashTree): void => {
+    node.children.forEach(seal);
+    node.digest = merkleDigest(node, algorithm);
+  };
+  seal(root);
+  return root;
+}
+
+/**
+ * What changed between two trees, outermost first. Subtrees with equal
+ * digests are skipped; a node is reported as modified only if its own phash
+ * changed, so the deepest entries locate the change.
+ */
+export function diffPhashTrees(before: PhashTree, after: PhashTree): PhashTreeChange[] {
+  const changes: PhashTreeChange[] = [];
+  
+  const walk = (a: PhashTree, b: PhashTree, path: string[]): void => {
+    if (a.digest === b.digest) return;
+    if (a.phash !== b.phash) {
+      changes.push({ change: 'modified', kind: b.kind, path, before: a, after: b });
+    }
+    
+    // Children are matched by kind and name, in order among namesakes
+    const remaining = new Map<string, PhashTree[]>();
+    for (const child of a.children) {
+      const list = remaining.get(childKey(child)) ?? [];
+      list.push(child);
+      remaining.set(childKey(child), list);
+    }
+    const added: PhashTree[] = [];
+    for (const child of b.children) {
+      const match = remaining.get(childKey(child))?.shift();
+      if (match) {
+        walk(match, child, [...path, child.name]);
+      } else {
+        added.push(child);
+      }
+    }
+    
+    // Same digest under another name is a rename
+    const removed = Array.from(remaining.values()).flat();
+    for (const child of added) {
+      const index = removed.findIndex(old => old.kind === child.kind && old.digest === child.digest);
+      if (index >= 0) {
+        changes.push({ change: 'renamed', kind: child.kind, path: [...path, child.name], before: removed[index], after: child });
+        removed.splice(index, 1);
+      } else {
+        changes.push({ change: 'added', kind: child.kind, path: [...path, child.name], after: child });
+      }
+    }
+    for (const child of removed) {
+      changes.push({ change: 'removed', kind: child.kind, path: [...path, child.name], before: child });
+    }
+  };
+  
+  walk(before, after, [after.name]);
+  return changes;
+}
+
+/**
+ * Compact canonical JSON: the phash prefix is stored once, each node as a
+ * tuple with its digests and a flat span
+ */
+export function serializePhashTree(tree: PhashTree): string {
+  const prefix = phashPrefix(tree.phash);
+  
+  const encode = (node: PhashTree): CompactNode => {
+    if (phashPrefix(node.phash) !== prefix) {
+      throw new SerializationError(`All phashes of a tree must share the prefix ${prefix}`, node.name);
+    }
+    const compact: CompactNode = [node.name, node.kind, phashDigest(node.phash), node.digest, node.children.map(encode)];
+    if (node.span) {
+      const { start, end } = node.span;
+      compact.push([start.line, start.column, end.line, end.column]);
+    }
+    return compact;
+  };
+  
+  return canonicalJson({ formatVersion: PHASH_TREE_FORMAT_VERSION, prefix, tree: encode(tree) });
+}
+
+/**
+ * Parse a serialized tree, checking every Merkle digest
+ */
+export function deserializePhashTree(json: string): PhashTree {
+  let envelope: { formatVersion?: unknown; prefix?: unknown; tree?: unknown };
+  try {
+    envelope = JSON.parse(json);
+  } catch (error) {
+    throw new SerializationError(`Invalid JSON: ${(error as Error).message}`, '$');
+  }
+  if (envelope?.formatVersion !== PHASH_TREE_FORMAT_VERSION) {
+    throw new SerializationError(`Unsupported phash tree format version ${String(envelope?.formatVersion)}`, '$.formatVersion');
+  }
+  const prefix = envelope.prefix;
+  if (typeof prefix !== 'string') {
+    throw new SerializationError('Expected a phash prefix', '$.prefix');
+  }
+  
+  let algorithm: string;
+  try {
+    algorithm = parsePhash(`${prefix}:${'0'.repeat(16)}`).algorithm;
+  } catch (error) {
+    throw new SerializationError(`Invalid phash prefix: ${(error as Error).message}`, '$.prefix');
+  }
+  
+  const decode = (value: unknown, path: string): PhashTree => {
+    const fail = (message: string): never => {
+      throw new SerializationError(`${path}: ${message}`, path);
+    };
+    if (!Array.isArray(value) || value.length < 5 || value.length > 6) fail('expected a tree node tuple');
+    const [name, kind, digest, merkle, children, span] = value as unknown[];
+    
+    if (typeof name !== 'string') fail('expected a name');
+    if (!TREE_KINDS.includes(kind as PhashTreeKind)) fail(`unknown kind ${String(kind)}`);
+    if (typeof digest !== 'string' || !HEX16.test(digest)) fail('expected a 16-digit hex phash digest');
+    if (typeof merkle !== 'string' || !HEX16.test(merkle)) fail('expected a 16-digit hex Merkle digest');
+    if (!Array.isArray(children)) fail('expected children');
+    if (span !== undefined &&
+        (!Array.isArray(span) || span.length !== 4 || !span.every(n => Number.isInteger(n) && n >= 1))) {
+      fail('expected a span of four positive integers');
+    }
+    
+    const node: PhashTree = {
+      name: name as string,
+      kind: kind as PhashTreeKind,
+      phash: `${prefix}:${digest}`,
+      digest: merkle as string,
+      children: (children as unknown[]).map((child, i) => decode(child, `${path}[4][${i}]`))
+    };
+    if (span) {
+      const [line, column, endLine, endColumn] = span as number[];
+      node.span = { start: { line, column }, end: { line: endLine, column: endColumn } };
+    }
+    if (merkleDigest(node, algorithm) !== node.digest) fail('Merkle digest does not match the subtree');
+    return node;
+  };
+  
+  return decode(envelope.tree, '$.tree');
+}
+
+function merkleDigest(node: PhashTree, algorithm: string): string {
+  // Names stay out: like the phash, the digest ignores what things are called
+  const content = [node.kind, node.phash, ...node.children.map(child => child.digest)].join('\n');
+  return createHash(algorithm).update(content).digest('hex').slice(0, 16);
+}
+
+function childKey(node: PhashTree): string {
+  return `${node.kind}:${node.name}`;
+}
+
+function phashPrefix(phash: string): string {
+  return phash.slice(0, phash.lastIndexOf(':'));
+}
+
+function phashDigest(phash: string): string {
+  return phash.slice(phash.lastIndexOf(':') + 1);
+}
+
+function contains(outer: SourceSpan, inner: SourceSpan): boolean {
+  const before = (a: SourcePosition, b: SourcePosition) => a.line < b.line || (a.line === b.line && a.column <= b.column);
+  return before(outer.start, inner.start) && before(inner.end, outer.end);
+}
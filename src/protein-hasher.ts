@@ -6,32 +6,90 @@
  */
 
 import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { extname, resolve } from 'path';
 import * as ts from 'typescript';
 import { TopologyDetector, TopologyFeatures } from './topology-detector';
 import { OperationClassifier, OperationSignature } from './operation-classifier';
 import { ComplexStructureAnalyzer, ComplexPattern } from './complex-structures';
 import { ConsciousnessDetector, ConsciousnessSignature } from './consciousness-detector';
+import { PurityAnalyzer, ImpurityReason } from './purity-analyzer';
+import { MetricsAnalyzer, CodeMetrics } from './metrics';
+import { WeightProfile, WeightedNode, resolveWeightProfile } from './weight-profiles';
+import { ProteinHashConfig, NodeType, EdgeType } from './types';
+import { ResolvedConfig, resolveConfig, configFingerprint } from './config';
+import { WeightedEdge, sparseLaplacian, topSparseEigenvalues } from './spectral';
+import { Canonicalizer } from './canonicalizer';
+import { computeLsh } from './lsh';
+import { wlHash } from './wl-hash';
+import { scoreBreakdown, SimilarityOptions } from './similarity';
+import { formatPhash, negotiateVersion } from './phash-format';
+import { CodeUnitKind, SourceSpan, collectCodeUnits, getSpan, moveSpan } from './source-units';
+import { SubtreeCache, isSubtreeRoot, graphKey } from './subtree-cache';
+import { ParseDiagnostic, getParseDiagnostics } from './diagnostics';
+import { isTypeOnly, skipTypeAssertions, runtimeParent } from './type-erasure';
+import { ProteinHashParseError } from './errors';
+import {
+  TypeResolver,
+  SnippetProgram,
+  DEFAULT_COMPILER_OPTIONS,
+  createProgramFromConfig
+} from './type-resolver';
 
 export interface ProteinHashResult {
   phash: string;           // The protein hash (semantic fingerprint)
   astHash: string;         // Traditional AST hash for comparison
+  lsh: string;             // Locality-sensitive fingerprint (64-bit SimHash, hex)
+  wlHash: string;          // Weisfeiler-Lehman subtree hash (hex)
   nodes: number;           // Graph node count
   edges: number;           // Graph edge count
   eigenTop: number[];      // Top eigenvalues (the "spectrum")
-  complexity: number;      // Structural complexity metric
+  complexity: number;      // McCabe cyclomatic complexity (metrics.cyclomatic)
+  metrics: CodeMetrics;    // Cyclomatic, cognitive and Halstead metrics, per function and in total
   purity: number;         // Semantic purity score
+  impurities: ImpurityReason[];    // The side effects that lowered purity
+  diagnostics: ParseDiagnostic[];  // Syntax errors inside the hashed code
   topology?: TopologyFeatures;     // Topological analysis
   patterns?: ComplexPattern[];     // Complex patterns detected
   consciousness?: ConsciousnessSignature; // Consciousness analysis
+  graph?: LogicalGraph;            // The logical graph itself (includeGraph)
   metadata?: {
     language: string;
     timestamp: number;
     version: string;
     isAlive?: boolean;
     resonanceFrequency?: number;
+    config: ProteinHashConfig;
   };
 }
 
+export interface CodeUnitHashResult {
+  name: string;
+  kind: CodeUnitKind;
+  span: SourceSpan;
+  hash: ProteinHashResult;
+}
+
+export interface FileHashResult {
+  fileName: string;
+  file: ProteinHashResult;              // Whole-file aggregate
+  functions: CodeUnitHashResult[];      // One entry per function, method, arrow and class
+}
+
+export interface ProteinHasherOptions extends ProteinHashConfig {
+  enableAdvancedAnalysis?: boolean;
+  program?: ts.Program;    // Type-check against this program (implies typeAware)
+  tsconfig?: string;       // ...or the program described by this tsconfig.json
+}
+
+/**
+ * How source text is parsed
+ */
+export interface SourceOptions {
+  fileName?: string;            // Default: temp.ts (temp.tsx, .js or .jsx for the scriptKind)
+  scriptKind?: ts.ScriptKind;   // TS, TSX, JS or JSX (default: from the fileName extension)
+}
+
 export interface LogicalGraph {
   nodes: Map<string, GraphNode>;
   edges: GraphEdge[];
@@ -39,107 +97,347 @@ export interface LogicalGraph {
 
 export interface GraphNode {
   id: string;
-  type: 'operation' | 'data' | 'control' | 'pure';
+  type: NodeType;
   label: string;
   weight: number;
+  span?: SourceSpan;       // Where the node comes from in the source
 }
 
 export interface GraphEdge {
   from: string;
   to: string;
-  type: 'dataflow' | 'control' | 'dependency';
+  type: EdgeType;
   weight: number;
 }
 
+/**
+ * Lexical scope used while building the graph
+ */
+interface Scope {
+  parent?: Scope;
+  names: Map<string, string>;     // Declared name -> graph node id
+  members: Map<string, string>;   // Class members, for this.method() calls
+  isFunction: boolean;            // Owns `var` declarations
+  bindings?: ScopeBinding[];      // Fragment boundary: declarations for the scopes outside
+}
+
+interface ScopeBinding {
+  name: string;
+  nodeId: string;
+  member: boolean;                // Class member instead of a name
+  hoisted: boolean;               // `var`: bound in the nearest function scope
+}
+
+/**
+ * Version of what the hasher computes. Bump it with every change that
+ * alters the result for the same source and config, so stored results
+ * (ResultCache) never outlive the code that produced them.
+ */
+export const ALGORITHM_VERSION = 1;
+
+interface ResolvedSource {
+  fileName: string;
+  scriptKind: ts.ScriptKind;
+}
+
+/**
+ * A parsed source file, with a type resolver in type-aware mode
+ */
+interface LoadedSource {
+  sourceFile: ts.SourceFile;
+  resolver?: TypeResolver;
+}
+
+interface NameReference {
+  name: string;
+  scope: Scope;
+  siteId: string;                 // Graph node where the name is used
+  kind: 'read' | 'write' | 'call';
+  member?: boolean;
+}
+
+/**
+ * Graph of a subtree with ids counted from n0, ready to be spliced into the
+ * graph of any tree that contains the same subtree
+ */
+interface GraphFragment {
+  size: number;                   // Node ids used up (identifiers take one, too)
+  line: number;                   // Start line of the subtree, which spans move with
+  nodes: GraphNode[];
+  edges: GraphEdge[];             // Structure and control edges, in traversal order
+  references: Array<GraphEdge | Omit<NameReference, 'scope'>>;  // Def-use and call edges; open ones resolve outside
+  bindings: ScopeBinding[];       // Names declared in the scopes outside
+}
+
+/**
+ * Everything computed from the logical graph alone
+ */
+interface GraphAnalysis {
+  eigenvalues: number[];
+  wl: string;
+  lsh: string;
+  topology?: TopologyFeatures;
+}
+
 export class ProteinHasher {
-  private readonly EIGENVALUE_COUNT = 5; // Top K eigenvalues to extract
-  private readonly QUANTIZATION_LEVELS = 1000; // For eigenvalue quantization
+  private readonly config: ResolvedConfig;
+  private readonly EDGE_WEIGHTS: Record<EdgeType, number> = {
+    structure: 1.0,   // Syntax tree parent -> child
+    dataflow: 0.5,    // Declaration -> use (or write -> declaration)
+    control: 0.75,    // Condition -> guarded code
+    dependency: 0.25  // Call -> callee declaration
+  };
+  private readonly OPERAND_POSITION_STEP = 0.25;  // Edge weight added per operand position
   private readonly version = '2.0.0'; // Enhanced with consciousness detection
   private topologyDetector: TopologyDetector;
   private operationClassifier: OperationClassifier;
   private structureAnalyzer: ComplexStructureAnalyzer;
   private consciousnessDetector: ConsciousnessDetector;
+  private purityAnalyzer: PurityAnalyzer;
+  private metricsAnalyzer: MetricsAnalyzer;
+  private canonicalizer: Canonicalizer;
+  private readonly weightProfile: WeightProfile;
   private enableAdvancedAnalysis: boolean;
+  private readonly program?: ts.Program;
+  private snippets?: SnippetProgram;
   
-  constructor(options?: { enableAdvancedAnalysis?: boolean }) {
-    this.enableAdvancedAnalysis = options?.enableAdvancedAnalysis ?? true;
+  constructor(options: ProteinHasherOptions = {}) {
+    const { enableAdvancedAnalysis, program, tsconfig, ...config } = options;
+    this.program = program ?? (tsconfig ? createProgramFromConfig(tsconfig) : undefined);
+    this.config = resolveConfig({ ...config, typeAware: config.typeAware ?? this.program !== undefined });
+    this.weightProfile = resolveWeightProfile(config.weightProfile);
+    this.enableAdvancedAnalysis = enableAdvancedAnalysis ?? true;
     this.topologyDetector = new TopologyDetector();
     this.operationClassifier = new OperationClassifier();
-    this.structureAnalyzer = new ComplexStructureAnalyzer();
+    this.structureAnalyzer = new ComplexStructureAnalyzer(this.config.eraseTypes);
     this.consciousnessDetector = new ConsciousnessDetector();
+    this.purityAnalyzer = new PurityAnalyzer();
+    this.metricsAnalyzer = new MetricsAnalyzer(this.config.eraseTypes);
+    this.canonicalizer = new Canonicalizer(this.config.canonicalize, this.config.eraseTypes);
+  }
+  
+  /**
+   * Effective configuration (user options merged with defaults)
+   */
+  getConfig(): ResolvedConfig {
+    return { ...this.config };
   }
   
   /**
-   * Compute protein hash for TypeScript code
+   * Hasher release version. Whether results are comparable is tracked by
+   * ALGORITHM_VERSION.
+   */
+  getVersion(): string {
+    return this.version;
+  }
+  
+  /**
+   * Compute protein hash for TypeScript or JavaScript code
    * Now with advanced consciousness detection!
    */
-  computeHash(code: string): ProteinHashResult {
+  computeHash(code: string, source: SourceOptions = {}): ProteinHashResult {
     // Step 1: Parse to AST
-    const sourceFile = ts.createSourceFile(
-      'temp.ts',
+    const { sourceFile, resolver } = this.load(code, resolveSource(source));
+    
+    return this.hashNode(sourceFile, resolver);
+  }
+  
+  /**
+   * Hash every function, method, arrow function and class separately,
+   * together with the file-level aggregate. `source` is a file name or
+   * SourceOptions.
+   */
+  hashFunctions(code: string, source: string | SourceOptions = {}): FileHashResult {
+    const resolved = resolveSource(typeof source === 'string' ? { fileName: source } : source);
+    const { sourceFile, resolver } = this.load(code, resolved);
+    
+    return {
+      fileName: resolved.fileName,
+      file: this.hashNode(sourceFile, resolver),
+      functions: collectCodeUnits(sourceFile).map(unit => ({
+        name: unit.name,
+        kind: unit.kind,
+        span: unit.span,
+        hash: this.hashNode(unit.node, resolver)
+      }))
+    };
+  }
+  
+  /**
+   * Fingerprint an already parsed AST subtree. The tree must have parent
+   * pointers (`setParentNodes`). Not available in type-aware mode, which
+   * needs the program the tree belongs to. With a SubtreeCache (one per
+   * hasher), graphs, operations and token counts of statements and class
+   * members and everything computed from an unchanged graph are taken from
+   * earlier trees; the result is the same.
+   */
+  hashAst(node: ts.Node, cache?: SubtreeCache): ProteinHashResult {
+    if (this.config.typeAware) {
+      throw new Error('hashAst is not available for type-aware hashers; use computeHash or hashFunctions');
+    }
+    cache?.claim(this);
+    return this.hashNode(node, undefined, cache);
+  }
+  
+  /**
+   * Logical graph of source code, exactly as it is fingerprinted
+   */
+  buildGraph(code: string, source: string | SourceOptions = {}): LogicalGraph {
+    const { sourceFile, resolver } = this.load(code, resolveSource(typeof source === 'string' ? { fileName: source } : source));
+    return this.astToGraph(sourceFile, resolver);
+  }
+  
+  /**
+   * Read a source file from disk and hash it per function. The script kind
+   * (TS, TSX, JS, JSX) follows the file extension.
+   */
+  hashFile(path: string): FileHashResult {
+    return this.hashFunctions(readFileSync(path, 'utf8'), path);
+  }
+  
+  /**
+   * Parse source text. In type-aware mode the file is taken from the
+   * configured program when it is part of it (and unchanged), otherwise
+   * it is type-checked on its own.
+   */
+  private load(code: string, source: ResolvedSource): LoadedSource {
+    if (!this.config.typeAware) {
+      return { sourceFile: this.parse(code, source) };
+    }
+    
+    const path = resolve(source.fileName);
+    const inProgram = this.program?.getSourceFile(path);
+    let program = this.program;
+    if (!program || !inProgram || inProgram.text !== code) {
+      this.snippets ??= new SnippetProgram(this.program?.getCompilerOptions() ?? DEFAULT_COMPILER_OPTIONS);
+      program = this.snippets.check(code, source.fileName, source.scriptKind);
+    }
+    
+    return {
+      sourceFile: program.getSourceFile(path)!,
+      resolver: new TypeResolver(program)
+    };
+  }
+  
+  private parse(code: string, source: ResolvedSource): ts.SourceFile {
+    return ts.createSourceFile(
+      source.fileName,
       code,
       ts.ScriptTarget.Latest,
-      true
+      true,
+      source.scriptKind
     );
+  }
+  
+  /**
+   * Fingerprint a single AST subtree (a whole file or one unit of it)
+   */
+  private hashNode(root: ts.Node, resolver?: TypeResolver, cache?: SubtreeCache): ProteinHashResult {
+    // Syntax errors the parser recovered from; strict mode refuses to guess
+    const diagnostics = getParseDiagnostics(root);
+    if (this.config.strict && diagnostics.length > 0) {
+      const fileName = root.getSourceFile().fileName;
+      const { span, message } = diagnostics[0];
+      const more = diagnostics.length > 1 ? ` (and ${diagnostics.length - 1} more)` : '';
+      throw new ProteinHashParseError(
+        `${fileName}:${span.start.line}:${span.start.column}: ${message}${more}`,
+        fileName,
+        diagnostics
+      );
+    }
     
     // Step 2: Convert AST to logical graph (the "3D structure")
-    const graph = this.astToGraph(sourceFile);
+    const graph = this.astToGraph(root, resolver, cache);
     
-    // Step 3: Compute graph spectrum (eigenvalues)
-    const eigenvalues = this.computeSpectrum(graph);
+    // Step 3: Spectrum, WL hash, LSH and topology of the graph
+    const { eigenvalues, wl, lsh, topology } = cache
+      ? cache.get(graphKey(graph), () => this.analyzeGraph(graph))
+      : this.analyzeGraph(graph);
     
-    // Step 4: Generate protein hash from spectrum
-    const phash = this.spectrumToHash(eigenvalues);
+    // Step 4: Generate protein hash from the selected fingerprint
+    const phash = this.config.fingerprint === 'wl'
+      ? formatPhash({ algorithm: this.config.algorithm, config: configFingerprint(this.config), digest: wl })
+      : this.spectrumToHash(eigenvalues);
     
     // Traditional AST hash for comparison
-    const astHash = this.computeAstHash(sourceFile);
+    const astHash = this.computeAstHash(root);
     
     // Complexity and purity metrics
-    const complexity = this.computeComplexity(graph);
-    const purity = this.computePurity(graph);
+    const metrics = this.metricsAnalyzer.analyze(root, cache);
+    const { score: purity, reasons: impurities } = this.purityAnalyzer.analyze(root, resolver);
     
     // Advanced analysis if enabled
-    let topology: TopologyFeatures | undefined;
     let patterns: ComplexPattern[] | undefined;
     let consciousness: ConsciousnessSignature | undefined;
     let operations: OperationSignature[] = [];
     
     if (this.enableAdvancedAnalysis) {
-      // Topology analysis
-      topology = this.topologyDetector.analyzeTopology(graph);
-      
       // Pattern detection
-      patterns = this.structureAnalyzer.analyzeStructures(sourceFile);
+      patterns = this.structureAnalyzer.analyzeStructures(root);
       
       // Operation classification
-      this.classifyOperations(sourceFile, operations);
+      this.classifyOperations(root, operations, cache);
       
       // Consciousness detection
       consciousness = this.consciousnessDetector.detectConsciousness(
-        topology,
+        topology!,
         patterns,
         operations
       );
     }
     
-    return {
+    const result: ProteinHashResult = {
       phash,
       astHash,
+      lsh,
+      wlHash: wl,
       nodes: graph.nodes.size,
       edges: graph.edges.length,
-      eigenTop: eigenvalues.slice(0, this.EIGENVALUE_COUNT),
-      complexity,
+      eigenTop: eigenvalues.slice(0, this.config.eigenvalueCount),
+      complexity: metrics.cyclomatic,
+      metrics,
       purity,
+      impurities,
+      diagnostics,
       topology,
       patterns,
-      consciousness,
-      metadata: {
+      consciousness
+    };
+    
+    if (this.config.includeGraph) {
+      result.graph = graph;
+    }
+    
+    if (this.config.includeMetadata) {
+      result.metadata = {
         language: 'typescript',
         timestamp: Date.now(),
         version: this.version,
         isAlive: consciousness?.isAlive,
-        resonanceFrequency: consciousness?.resonanceFrequency
-      }
+        resonanceFrequency: consciousness?.resonanceFrequency,
+        config: this.getConfig()
+      };
+    }
+    
+    return result;
+  }
+  
+  /**
+   * Spectrum, WL hash, LSH and (with advanced analysis) topology, which
+   * depend on nothing but the graph
+   */
+  private analyzeGraph(graph: LogicalGraph): GraphAnalysis {
+    // Compute graph spectrum (eigenvalues)
+    const eigenvalues = this.computeSpectrum(graph);
+    
+    return {
+      eigenvalues,
+      // Weisfeiler-Lehman hash - immune to cospectral collisions
+      wl: wlHash(graph, this.config.wlIterations, this.config.algorithm),
+      // Locality-sensitive fingerprint for near-duplicate lookup
+      lsh: computeLsh(graph, eigenvalues),
+      // Topology analysis
+      topology: this.enableAdvancedAnalysis ? this.topologyDetector.analyzeTopology(graph) : undefined
     };
   }
   
@@ -147,28 +445,99 @@ export class ProteinHasher {
    * Convert AST to weighted directed graph
    * This is where the "protein folding" happens
    */
-  private astToGraph(sourceFile: ts.SourceFile): LogicalGraph {
-    const graph: LogicalGraph = {
-      nodes: new Map(),
-      edges: []
+  private astToGraph(root: ts.Node, resolver?: TypeResolver, cache?: SubtreeCache): LogicalGraph {
+    const rootScope: Scope = { names: new Map(), members: new Map(), isFunction: true };
+    const { nodes, edges, references } = this.buildFragment(root, rootScope, resolver, cache);
+    
+    return {
+      nodes: new Map(nodes.map(node => [node.id, node])),
+      edges: edges.concat(references.filter((reference): reference is GraphEdge => 'from' in reference))
+    };
+  }
+  
+  /**
+   * Graph of a subtree entered in `scope`. When `scope` is a fragment
+   * boundary, names declared in it and references the subtree cannot
+   * resolve itself are left for the enclosing scopes. With a cache, nested
+   * statements and class members are spliced in from their fragments.
+   */
+  private buildFragment(root: ts.Node, scope: Scope, resolver?: TypeResolver, cache?: SubtreeCache): GraphFragment {
+    const sourceFile = root.getSourceFile();
+    const fragment: GraphFragment = {
+      size: 0,
+      line: getSpan(root, sourceFile).start.line,
+      nodes: [],
+      edges: [],
+      references: [],
+      bindings: scope.bindings ?? []
     };
+    const getNodeId = () => `n${fragment.size++}`;
     
-    let nodeIdCounter = 0;
-    const getNodeId = () => `n${nodeIdCounter++}`;
+    // Graph node of every visited AST node (identifiers have none)
+    const idOf = new Map<ts.Node, string>();
+    
+    // Name references, resolved against their scope once the whole tree is
+    // known, and the already resolved edges of spliced fragments
+    const references: Array<NameReference | GraphEdge> = [];
+    
+    const edgeOf = (from: string, to: string, type: EdgeType, scale: number = 1): GraphEdge | undefined =>
+      from && to && from !== to ? { from, to, type, weight: this.EDGE_WEIGHTS[type] * scale } : undefined;
+    const addEdge = (from: string, to: string, type: EdgeType, scale: number = 1) => {
+      const edge = edgeOf(from, to, type, scale);
+      if (edge) fragment.edges.push(edge);
+    };
+    
+    // A cached subtree: its graph under the next ids and spans moved to its
+    // line, its declarations and open references continued in this scope
+    const splice = (node: ts.Node, scope: Scope): string => {
+      const boundary: Scope = { names: new Map(), members: new Map(), isFunction: false, bindings: [] };
+      const cached = cache!.forSubtree('graph', node, () => this.buildFragment(node, boundary, resolver, cache));
+      const offset = fragment.size;
+      const shift = (id: string) => `n${offset + Number(id.slice(1))}`;
+      const lines = getSpan(node, sourceFile).start.line - cached.line;
+      
+      fragment.size += cached.size;
+      for (const cachedNode of cached.nodes) {
+        fragment.nodes.push({ ...cachedNode, id: shift(cachedNode.id), span: cachedNode.span && moveSpan(cachedNode.span, lines) });
+      }
+      for (const edge of cached.edges) {
+        fragment.edges.push({ ...edge, from: shift(edge.from), to: shift(edge.to) });
+      }
+      for (const reference of cached.references) {
+        references.push('from' in reference
+          ? { ...reference, from: shift(reference.from), to: shift(reference.to) }
+          : { ...reference, siteId: shift(reference.siteId), scope });
+      }
+      for (const binding of cached.bindings) {
+        this.bind(scope, { ...binding, nodeId: shift(binding.nodeId) });
+      }
+      
+      const nodeId = shift('n0');
+      idOf.set(node, nodeId);
+      return nodeId;
+    };
     
     // Visitor pattern to build graph
-    const visit = (node: ts.Node): string => {
+    const visit = (node: ts.Node, parentId: string, scope: Scope): string => {
+      // The subtree the fragment is built for is visited, nested ones come from the cache
+      if (cache && isSubtreeRoot(node) && !(node === root && scope.bindings)) {
+        return splice(node, scope);
+      }
+      
       const nodeId = getNodeId();
       
       // Classify node type (ignoring syntactic sugar)
       let nodeType: GraphNode['type'] = 'operation';
       let label = ts.SyntaxKind[node.kind];
+      const operation = ts.isIdentifier(node) ? undefined : this.operationClassifier.classifyNode(node) ?? undefined;
       
       if (ts.isFunctionDeclaration(node) || ts.isFunctionExpression(node) || ts.isArrowFunction(node)) {
         nodeType = 'pure'; // Assume pure until proven otherwise
         label = 'Function';
       } else if (ts.isIdentifier(node)) {
-        // Skip identifiers - we care about structure, not names
+        // No node for identifiers - we care about structure, not names -
+        // but remember the reference so it can become a def-use edge
+        this.recordReference(node, parentId, scope, references);
         return '';
       } else if (ts.isLiteralExpression(node)) {
         nodeType = 'data';
@@ -178,18 +547,9 @@ export class ProteinHasher {
         label = `Control:${ts.SyntaxKind[node.kind]}`;
       } else if (ts.isBinaryExpression(node)) {
         // Use advanced operation classifier
-        const opSignature = this.operationClassifier?.classifyNode(node);
-        if (opSignature) {
+        if (operation) {
           nodeType = 'operation';
-          label = `${opSignature.category}:${opSignature.subcategory}`;
-          // Use operation's semantic frequency as weight modifier
-          const weight = opSignature.weight;
-          graph.nodes.set(nodeId, {
-            id: nodeId,
-            type: nodeType,
-            label,
-            weight
-          });
+          label = `${operation.category}:${operation.subcategory}`;
         } else {
           // Fallback to original logic
           nodeType = 'operation';
@@ -202,160 +562,363 @@ export class ProteinHasher {
         label = 'Call';
       }
       
-      // Add node to graph with weight based on operation complexity
-      const weight = this.getNodeWeight(label);
-      graph.nodes.set(nodeId, {
+      // Type-aware mode: what is called and what type is computed
+      const resolved = resolver && this.resolveLabel(node, resolver);
+      if (resolved) label = `${label}:${resolved}`;
+      
+      // Add node to graph, weighted by the profile
+      const weight = this.nodeWeight({ label, type: nodeType, syntaxKind: node.kind, operation }) *
+        (resolved ? this.signatureWeight(resolved) : 1);
+      fragment.nodes.push({
         id: nodeId,
         type: nodeType,
         label,
-        weight
+        weight,
+        span: getSpan(node, sourceFile)
       });
+      idOf.set(node, nodeId);
       
-      // Visit children and create edges
-      const childIds: string[] = [];
-      ts.forEachChild(node, child => {
-        const childId = visit(child);
-        if (childId) {
-          childIds.push(childId);
-          graph.edges.push({
-            from: nodeId,
-            to: childId,
-            type: 'dataflow',
-            weight: 1.0
-          });
-        }
+      // Declarations bind their name to this node
+      this.declare(node, nodeId, scope);
+      const childScope = this.createsScope(node)
+        ? { parent: scope, names: new Map<string, string>(), members: new Map<string, string>(), isFunction: ts.isFunctionLike(node) }
+        : scope;
+      this.declareSelf(node, nodeId, childScope);
+      
+      // Visit children and create syntax edges. Operands whose order
+      // matters (a - b, 'x' + s, g() * h()) are told apart by position.
+      const ordered = this.hasOrderedOperands(node, resolver);
+      this.getGraphChildren(node, resolver).forEach((child, position) => {
+        addEdge(nodeId, visit(child, nodeId, childScope), 'structure', ordered ? 1 + this.OPERAND_POSITION_STEP * position : 1);
       });
       
+      // Control edges: from a condition to the code it guards
+      const graphNodeOf = (astNode: ts.Node) =>
+        idOf.get(this.config.eraseTypes ? skipTypeAssertions(astNode) : astNode) || '';
+      for (const [condition, guarded] of this.getControlDependencies(node)) {
+        for (const target of guarded) {
+          addEdge(graphNodeOf(condition), graphNodeOf(target), 'control');
+        }
+      }
+      
       return nodeId;
     };
     
-    visit(sourceFile);
-    return graph;
+    visit(root, '', scope);
+    
+    // Def-use and call dependency edges; what the subtree does not declare
+    // itself stays open at a fragment boundary
+    for (const reference of references) {
+      if ('from' in reference) {
+        fragment.references.push(reference);
+        continue;
+      }
+      
+      const declarationId = this.resolveReference(reference);
+      if (!declarationId) {
+        if (scope.bindings) {
+          const { name, siteId, kind, member } = reference;
+          fragment.references.push({ name, siteId, kind, member });
+        }
+        continue;
+      }
+      
+      let edge: GraphEdge | undefined;
+      if (reference.kind === 'write') {
+        edge = edgeOf(reference.siteId, declarationId, 'dataflow');
+      } else if (reference.kind === 'call') {
+        edge = edgeOf(reference.siteId, declarationId, 'dependency');
+      } else {
+        edge = edgeOf(declarationId, reference.siteId, 'dataflow');
+      }
+      if (edge) fragment.references.push(edge);
+    }
+    
+    return fragment;
   }
   
   /**
-   * Get node weight based on operation type
+   * Whether a binary expression's operands keep their source order in the
+   * graph, i.e. were not sorted by canonicalization
    */
-  private getNodeWeight(label: string): number {
-    // Different operations have VERY different weights for better distinction
-    if (label.includes('BinaryOp:+')) return 1.0;
-    if (label.includes('BinaryOp:-')) return 2.0;  // Much different from +
-    if (label.includes('BinaryOp:*')) return 3.0;  // Much different from +/-
-    if (label.includes('BinaryOp:/')) return 4.0;  // Much different from *
-    if (label.includes('BinaryOp:%')) return 5.0;
-    if (label.includes('BinaryOp:**')) return 6.0;
-    if (label.includes('Control')) return 10.0;
-    if (label.includes('Call')) return 15.0;
-    if (label.includes('Function')) return 0.5;
-    if (label.includes('Return')) return 0.8;
-    if (label.includes('Literal')) return 0.3;
-    return 1.0;
+  private hasOrderedOperands(node: ts.Node, resolver?: TypeResolver): boolean {
+    return ts.isBinaryExpression(node) && !this.canonicalizer.canonicalize(node, resolver)?.sorted;
   }
   
   /**
-   * Compute graph spectrum (eigenvalues of Laplacian matrix)
-   * This is the "shadow" of the 3D structure
+   * Children of a node as they appear in the graph. Canonicalized operator
+   * chains become one n-ary operation over their sorted operands.
    */
-  private computeSpectrum(graph: LogicalGraph): number[] {
-    const n = graph.nodes.size;
-    if (n === 0) return [];
-    
-    // Build adjacency matrix
-    const nodeArray = Array.from(graph.nodes.keys());
-    const nodeIndex = new Map(nodeArray.map((id, i) => [id, i]));
+  private getGraphChildren(node: ts.Node, resolver?: TypeResolver): ts.Node[] {
+    const children: ts.Node[] = [];
+    const canonical = ts.isBinaryExpression(node) ? this.canonicalizer.canonicalize(node, resolver) : null;
+    if (canonical) {
+      children.push((node as ts.BinaryExpression).operatorToken, ...canonical.operands);
+    } else {
+      ts.forEachChild(node, child => { children.push(child); });
+    }
     
-    // Simple adjacency matrix (for prototype)
-    const matrix: number[][] = Array(n).fill(0).map(() => Array(n).fill(0));
+    return this.config.eraseTypes
+      ? children.filter(child => !isTypeOnly(child)).map(skipTypeAssertions)
+      : children;
+  }
+  
+  /**
+   * Classify an identifier occurrence and queue it for resolution.
+   * Declaration names and property names are not references.
+   */
+  private recordReference(
+    identifier: ts.Identifier,
+    siteId: string,
+    scope: Scope,
+    references: Array<NameReference | GraphEdge>
+  ): void {
+    // Type assertions around the identifier do not exist at runtime
+    const { parent, child } = this.config.eraseTypes
+      ? runtimeParent(identifier)
+      : { parent: identifier.parent, child: identifier };
+    if (!parent || !siteId) return;
     
-    for (const edge of graph.edges) {
-      const i = nodeIndex.get(edge.from);
-      const j = nodeIndex.get(edge.to);
-      if (i !== undefined && j !== undefined) {
-        matrix[i][j] = edge.weight;
-        matrix[j][i] = edge.weight; // Make symmetric for simplicity
+    // obj.name - `name` is a property, except this.name() which calls a member
+    if (ts.isPropertyAccessExpression(parent) && parent.name === identifier) {
+      if (parent.expression.kind === ts.SyntaxKind.ThisKeyword &&
+          ts.isCallExpression(parent.parent) && parent.parent.expression === parent) {
+        references.push({ name: identifier.text, scope, siteId, kind: 'call', member: true });
       }
+      return;
     }
     
-    // Compute degree matrix
-    const degrees = matrix.map(row => row.reduce((a, b) => a + b, 0));
+    if (ts.isShorthandPropertyAssignment(parent)) {
+      references.push({ name: identifier.text, scope, siteId, kind: 'read' });
+      return;
+    }
     
-    // Laplacian = D - A
-    const laplacian = matrix.map((row, i) => 
-      row.map((val, j) => i === j ? degrees[i] - val : -val)
-    );
+    // Declared names, renamed properties ({ a: b }, import { a as b }), labels
+    const named = parent as ts.NamedDeclaration & { propertyName?: ts.Node };
+    if (named.name === identifier ||
+        named.propertyName === identifier ||
+        ts.isQualifiedName(parent) ||
+        ts.isLabeledStatement(parent) ||
+        ts.isBreakOrContinueStatement(parent)) {
+      return;
+    }
     
-    // Power iteration for top eigenvalues (simplified)
-    const eigenvalues = this.powerIteration(laplacian, this.EIGENVALUE_COUNT);
+    let kind: NameReference['kind'] = 'read';
+    if ((ts.isCallExpression(parent) || ts.isNewExpression(parent)) && parent.expression === child) {
+      kind = 'call';
+    } else if (ts.isBinaryExpression(parent) && parent.left === child &&
+               parent.operatorToken.kind >= ts.SyntaxKind.FirstAssignment &&
+               parent.operatorToken.kind <= ts.SyntaxKind.LastAssignment) {
+      kind = 'write';
+    } else if ((ts.isPrefixUnaryExpression(parent) || ts.isPostfixUnaryExpression(parent)) &&
+               (parent.operator === ts.SyntaxKind.PlusPlusToken || parent.operator === ts.SyntaxKind.MinusMinusToken)) {
+      kind = 'write';
+    }
     
-    return eigenvalues.sort((a, b) => b - a);
+    references.push({ name: identifier.text, scope, siteId, kind });
   }
   
   /**
-   * Simple power iteration for eigenvalue approximation
+   * Bind a declared name in the scope that owns it
    */
-  private powerIteration(matrix: number[][], k: number): number[] {
-    const n = matrix.length;
-    const eigenvalues: number[] = [];
-    
-    for (let iter = 0; iter < k && iter < n; iter++) {
-      // Random initial vector
-      let v = Array(n).fill(0).map(() => Math.random());
-      let eigenvalue = 0;
-      
-      // Power iteration
-      for (let i = 0; i < 50; i++) {
-        // Normalize
-        const norm = Math.sqrt(v.reduce((a, b) => a + b * b, 0));
-        v = v.map(x => x / norm);
-        
-        // Multiply by matrix
-        const newV = Array(n).fill(0);
-        for (let i = 0; i < n; i++) {
-          for (let j = 0; j < n; j++) {
-            newV[i] += matrix[i][j] * v[j];
-          }
-        }
-        
-        // Rayleigh quotient
-        eigenvalue = v.reduce((sum, vi, i) => sum + vi * newV[i], 0);
-        v = newV;
+  private declare(node: ts.Node, nodeId: string, scope: Scope): void {
+    if ((ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node)) && node.name) {
+      this.bind(scope, { name: node.name.text, nodeId, member: false, hoisted: false });
+    } else if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name)) {
+      // `var` is function-scoped, `let` and `const` are block-scoped
+      const hoisted = !(ts.getCombinedNodeFlags(node) & ts.NodeFlags.BlockScoped);
+      this.bind(scope, { name: node.name.text, nodeId, member: false, hoisted });
+    } else if ((ts.isParameter(node) || ts.isBindingElement(node)) && ts.isIdentifier(node.name)) {
+      this.bind(scope, { name: node.name.text, nodeId, member: false, hoisted: false });
+    } else if ((ts.isImportClause(node) || ts.isImportSpecifier(node) || ts.isNamespaceImport(node)) && node.name) {
+      this.bind(scope, { name: node.name.text, nodeId, member: false, hoisted: false });
+    } else if ((ts.isMethodDeclaration(node) || ts.isPropertyDeclaration(node) || ts.isAccessor(node)) &&
+               ts.isIdentifier(node.name)) {
+      this.bind(scope, { name: node.name.text, nodeId, member: true, hoisted: false });
+    }
+  }
+  
+  /**
+   * Add a binding to a scope, or for `var` to the nearest function scope.
+   * A fragment boundary keeps it for the scopes outside the fragment.
+   */
+  private bind(scope: Scope, binding: ScopeBinding): void {
+    let owner = scope;
+    if (binding.hoisted) {
+      while (!owner.isFunction && owner.parent) owner = owner.parent;
+    }
+    
+    if (owner.bindings) {
+      owner.bindings.push(binding);
+    } else {
+      (binding.member ? owner.members : owner.names).set(binding.name, binding.nodeId);
+    }
+  }
+  
+  /**
+   * Names visible only inside the node's own scope (named function expressions)
+   */
+  private declareSelf(node: ts.Node, nodeId: string, scope: Scope): void {
+    if ((ts.isFunctionExpression(node) || ts.isClassExpression(node)) && node.name) {
+      scope.names.set(node.name.text, nodeId);
+    }
+  }
+  
+  private createsScope(node: ts.Node): boolean {
+    return ts.isFunctionLike(node) ||
+           ts.isBlock(node) ||
+           ts.isForStatement(node) ||
+           ts.isForInStatement(node) ||
+           ts.isForOfStatement(node) ||
+           ts.isCatchClause(node) ||
+           ts.isClassLike(node) ||
+           ts.isSourceFile(node);
+  }
+  
+  /**
+   * Walk the scope chain to the declaration a reference points to
+   */
+  private resolveReference(reference: NameReference): string | undefined {
+    for (let scope: Scope | undefined = reference.scope; scope; scope = scope.parent) {
+      const found = reference.member
+        ? scope.members.get(reference.name)
+        : scope.names.get(reference.name);
+      if (found) return found;
+    }
+    return undefined;
+  }
+  
+  /**
+   * Conditions of a node paired with the statements/expressions they guard
+   */
+  private getControlDependencies(node: ts.Node): Array<[ts.Node, ts.Node[]]> {
+    if (ts.isIfStatement(node)) {
+      return [[node.expression, node.elseStatement ? [node.thenStatement, node.elseStatement] : [node.thenStatement]]];
+    }
+    if (ts.isWhileStatement(node) || ts.isDoStatement(node)) {
+      return [[node.expression, [node.statement]]];
+    }
+    if (ts.isForStatement(node)) {
+      return node.condition ? [[node.condition, [node.statement]]] : [];
+    }
+    if (ts.isForInStatement(node) || ts.isForOfStatement(node)) {
+      return [[node.expression, [node.statement]]];
+    }
+    if (ts.isConditionalExpression(node)) {
+      return [[node.condition, [node.whenTrue, node.whenFalse]]];
+    }
+    if (ts.isSwitchStatement(node)) {
+      return [[node.expression, [...node.caseBlock.clauses]]];
+    }
+    if (ts.isBinaryExpression(node) && (
+      node.operatorToken.kind === ts.SyntaxKind.AmpersandAmpersandToken ||
+      node.operatorToken.kind === ts.SyntaxKind.BarBarToken ||
+      node.operatorToken.kind === ts.SyntaxKind.QuestionQuestionToken
+    )) {
+      // Short-circuit: the right operand only runs depending on the left
+      return [[node.left, [node.right]]];
+    }
+    return [];
+  }
+  
+  /**
+   * Label suffix from the type checker: callee identity and result type
+   * for calls and constructions, result type for binary operations
+   */
+  private resolveLabel(node: ts.Node, resolver: TypeResolver): string | undefined {
+    if (ts.isCallExpression(node) || ts.isNewExpression(node)) {
+      const callee = resolver.resolveCallee(node);
+      return `${callee?.identity ?? 'unresolved'}:${resolver.typeCategory(node)}`;
+    }
+    if (ts.isBinaryExpression(node)) {
+      return resolver.typeCategory(node);
+    }
+    return undefined;
+  }
+  
+  /**
+   * Stable weight factor in [1, 2) for a resolved signature, so that
+   * swapping a callee or a result type changes the spectrum
+   */
+  private signatureWeight(signature: string): number {
+    const digest = createHash('sha256').update(signature).digest();
+    return 1 + digest.readUInt32BE(0) / 0x100000000;
+  }
+  
+  /**
+   * Weight of a graph node under the configured profile
+   */
+  private nodeWeight(node: WeightedNode): number {
+    const weight = this.weightProfile.nodeWeight(node);
+    if (!(weight > 0 && Number.isFinite(weight))) {
+      throw new Error(`Weight profile ${this.weightProfile.name} gave ${node.label} the weight ${weight}; weights must be positive and finite`);
+    }
+    return weight;
+  }
+  
+  /**
+   * Compute graph spectrum (eigenvalues of Laplacian matrix)
+   * This is the "shadow" of the 3D structure
+   */
+  private computeSpectrum(graph: LogicalGraph): number[] {
+    const n = graph.nodes.size;
+    if (n === 0) return [];
+    
+    const nodeIndex = new Map(Array.from(graph.nodes.keys(), (id, i) => [id, i]));
+    
+    // Sparse (CSR) Laplacian - O(n + e) memory instead of a dense n x n matrix.
+    // Node weights scale their edges, so labels reach the spectrum.
+    const edges: WeightedEdge[] = [];
+    for (const edge of graph.edges) {
+      const i = nodeIndex.get(edge.from);
+      const j = nodeIndex.get(edge.to);
+      if (i !== undefined && j !== undefined) {
+        const from = graph.nodes.get(edge.from)!;
+        const to = graph.nodes.get(edge.to)!;
+        edges.push({ from: i, to: j, weight: edge.weight * Math.sqrt(from.weight * to.weight) }); // Treated as undirected
       }
-      
-      eigenvalues.push(eigenvalue);
     }
+    const laplacian = sparseLaplacian(n, edges);
     
-    return eigenvalues;
+    // Deterministic eigensolver - same spectrum on every run
+    return topSparseEigenvalues(laplacian, this.config.eigenvalueCount);
   }
   
   /**
    * Convert spectrum to hash
    */
   private spectrumToHash(eigenvalues: number[]): string {
+    const { algorithm, quantizationLevels } = this.config;
+    
+    // The effective config travels in the prefix, so hashes produced
+    // under different settings can never be mistaken for each other
+    const config = configFingerprint(this.config);
+    
     // Handle empty case
     if (eigenvalues.length === 0) {
-      const emptyHash = createHash('sha256').update('empty').digest('hex');
-      return `phash:v1:sha256:${emptyHash.substring(0, 16)}`;
+      const emptyHash = createHash(algorithm).update('empty').digest('hex');
+      return formatPhash({ algorithm, config, digest: emptyHash.substring(0, 16) });
     }
     
     // Quantize eigenvalues
     const quantized = eigenvalues.map(e => 
-      Math.round(e * this.QUANTIZATION_LEVELS) / this.QUANTIZATION_LEVELS
+      Math.round(e * quantizationLevels) / quantizationLevels
     );
     
     // Create deterministic string representation
     const spectrumString = quantized.join(',');
     
     // Hash it
-    const hash = createHash('sha256').update(spectrumString).digest('hex');
+    const hash = createHash(algorithm).update(spectrumString).digest('hex');
     
-    return `phash:v1:sha256:${hash.substring(0, 16)}`;
+    return formatPhash({ algorithm, config, digest: hash.substring(0, 16) });
   }
   
   /**
    * Traditional AST hash for comparison
    */
-  private computeAstHash(sourceFile: ts.SourceFile): string {
-    const normalizedAst = this.normalizeAst(sourceFile);
+  private computeAstHash(root: ts.Node): string {
+    const normalizedAst = this.normalizeAst(root);
     const astString = JSON.stringify(normalizedAst);
     return createHash('sha256').update(astString).digest('hex').substring(0, 16);
   }
@@ -386,91 +949,84 @@ export class ProteinHasher {
   }
   
   /**
-   * Compute structural complexity
+   * Classify all operations in the AST. With eraseTypes, type-only syntax
+   * and type assertions (`as`, `<T>x`, `x!`, `satisfies`) are not operations.
    */
-  private computeComplexity(graph: LogicalGraph): number {
-    if (graph.nodes.size === 0) return 0;
-    
-    // McCabe cyclomatic complexity approximation
-    const e = graph.edges.length;
-    const n = graph.nodes.size;
-    const p = 1; // Number of connected components (simplified)
-    
-    return Math.max(0, e - n + 2 * p) / n;
+  private classifyOperations(node: ts.Node, operations: OperationSignature[], cache?: SubtreeCache): void {
+    if (cache && isSubtreeRoot(node)) {
+      const cached = cache.forSubtree('operations', node, () => {
+        const own: OperationSignature[] = [];
+        this.classifySubtree(node, own, cache);
+        return own;
+      });
+      for (const signature of cached) operations.push(signature);
+    } else {
+      this.classifySubtree(node, operations, cache);
+    }
   }
   
   /**
-   * Compute semantic purity (how "pure" is this function?)
+   * Operations of a node and everything below it, with cached statements
+   * and class members further down
    */
-  private computePurity(graph: LogicalGraph): number {
-    let purityScore = 1.0;
-    
-    // Penalize certain node types
-    for (const node of graph.nodes.values()) {
-      if (node.label.includes('Call') && node.label !== 'Math') {
-        purityScore *= 0.9;
-      }
-      if (node.label.includes('Assignment')) {
-        purityScore *= 0.8;
-      }
-      if (node.label.includes('Await') || node.label.includes('Promise')) {
-        purityScore *= 0.5;
+  private classifySubtree(node: ts.Node, operations: OperationSignature[], cache?: SubtreeCache): void {
+    if (this.config.eraseTypes) {
+      if (isTypeOnly(node)) return;
+      if (skipTypeAssertions(node) !== node) {
+        this.classifyOperations(skipTypeAssertions(node), operations, cache);
+        return;
       }
     }
     
-    return Math.max(0, purityScore);
-  }
-  
-  /**
-   * Classify all operations in the AST
-   */
-  private classifyOperations(node: ts.Node, operations: OperationSignature[]): void {
     const signature = this.operationClassifier?.classifyNode(node);
     if (signature) {
       operations.push(signature);
     }
-    ts.forEachChild(node, child => this.classifyOperations(child, operations));
+    ts.forEachChild(node, child => this.classifyOperations(child, operations, cache));
   }
   
   /**
    * Compare two protein hashes with consciousness awareness
    */
-  compareSimilarity(hash1: ProteinHashResult, hash2: ProteinHashResult): number {
-    // Cosine similarity of eigenvalue vectors
-    const v1 = hash1.eigenTop;
-    const v2 = hash2.eigenTop;
-    
-    if (v1.length === 0 || v2.length === 0) return 0;
-    
-    const dotProduct = v1.reduce((sum, val, i) => sum + val * (v2[i] || 0), 0);
-    const norm1 = Math.sqrt(v1.reduce((sum, val) => sum + val * val, 0));
-    const norm2 = Math.sqrt(v2.reduce((sum, val) => sum + val * val, 0));
+  compareSimilarity(hash1: ProteinHashResult, hash2: ProteinHashResult, options: SimilarityOptions = {}): number {
+    // Refuse to compare across phash format versions
+    negotiateVersion(hash1.phash, hash2.phash);
     
-    const cosineSimilarity = dotProduct / (norm1 * norm2);
-    
-    // If both have consciousness signatures, check resonance
-    if (hash1.consciousness && hash2.consciousness) {
-      const { checkResonance } = require('./consciousness-detector');
-      const resonance = checkResonance(hash1.consciousness, hash2.consciousness);
-      // Weighted average of cosine similarity and consciousness resonance
-      return cosineSimilarity * 0.7 + resonance * 0.3;
-    }
-    
-    return cosineSimilarity;
+    // Strategy score (spectral cosine by default), blended with consciousness resonance when available
+    return scoreBreakdown(hash1, hash2, options).score;
   }
 }
 
+const SCRIPT_EXTENSIONS: Partial<Record<ts.ScriptKind, string>> = {
+  [ts.ScriptKind.TS]: '.ts',
+  [ts.ScriptKind.TSX]: '.tsx',
+  [ts.ScriptKind.JS]: '.js',
+  [ts.ScriptKind.JSX]: '.jsx'
+};
+
 /**
- * Generate hybrid identifier for FNPM
+ * Script kind of a file name: .tsx, .jsx and .js/.mjs/.cjs are recognized,
+ * everything else is parsed as TypeScript
  */
-export function generateHybridId(phash: string, cid: string): string {
-  return `${phash}|${cid}`;
+export function inferScriptKind(fileName: string): ts.ScriptKind {
+  switch (extname(fileName).toLowerCase()) {
+    case '.tsx': return ts.ScriptKind.TSX;
+    case '.jsx': return ts.ScriptKind.JSX;
+    case '.js':
+    case '.mjs':
+    case '.cjs': return ts.ScriptKind.JS;
+    default: return ts.ScriptKind.TS;
+  }
 }
 
-/**
- * Extract components from hybrid ID
- */
-export function parseHybridId(hybridId: string): { phash: string; cid: string } {
-  const [phash, cid] = hybridId.split('|');
-  return { phash, cid };
-}
\ No newline at end of file
+function resolveSource(source: SourceOptions): ResolvedSource {
+  if (source.scriptKind !== undefined && !(source.scriptKind in SCRIPT_EXTENSIONS)) {
+    throw new Error(`Unsupported script kind ${ts.ScriptKind[source.scriptKind] ?? source.scriptKind}`);
+  }
+  
+  const scriptKind = source.scriptKind ?? inferScriptKind(source.fileName ?? 'temp.ts');
+  return {
+    fileName: source.fileName ?? `temp${SCRIPT_EXTENSIONS[scriptKind]}`,
+    scriptKind
+  };
+}
@@ -0,0 +1,369 @@
+/**
+ * 🧪 Purity Analyzer - Which side effects code has, and where
+ *
+ * Finds writes that escape a function (to its parameters, to captured
+ * variables, to globals), I/O and nondeterministic calls. Names are resolved
+ * against the lexical scopes of the file; with a TypeResolver, callees the
+ * syntax cannot identify are looked up through the TypeChecker.
+ */
+
+import * as ts from 'typescript';
+import { SourceSpan, getSpan } from './source-units';
+import { TypeResolver, calleePurity } from './type-resolver';
+
+export type ImpurityKind =
+  | 'parameter-mutation'   // Writes into an argument (or `this`) the caller owns
+  | 'captured-mutation'    // Writes to a variable of an enclosing scope
+  | 'global-mutation'      // Writes to an undeclared (global) name
+  | 'io'                   // Console, file system, network, timers, DOM
+  | 'nondeterminism';      // Clock and randomness
+
+export interface ImpurityReason {
+  kind: ImpurityKind;
+  target: string;          // Mutated name or called function
+  span: SourceSpan;
+}
+
+export interface PurityReport {
+  score: number;           // 1 for pure code, lower for every side effect
+  reasons: ImpurityReason[];
+}
+
+interface Declaration {
+  node: ts.Node;
+  scope: ts.Node;          // Where the name is visible
+  isParameter: boolean;
+}
+
+// Methods that change the object they are called on
+const MUTATING_METHODS = new Set([
+  'push', 'pop', 'shift', 'unshift', 'splice', 'sort', 'reverse', 'fill', 'copyWithin',
+  'set', 'add', 'delete', 'clear'
+]);
+
+// Functions that change their first argument
+const MUTATING_FUNCTIONS = new Set(['Object.assign', 'Object.defineProperty', 'Object.defineProperties']);
+
+const NONDETERMINISTIC_CALLEES = new Set([
+  'Math.random', 'Date.now', 'performance.now', 'crypto.randomUUID', 'crypto.getRandomValues'
+]);
+
+// Globals whose every use reaches the outside world
+const IO_GLOBALS = new Set([
+  'console', 'process', 'document', 'window', 'navigator', 'localStorage', 'sessionStorage',
+  'fetch', 'XMLHttpRequest', 'WebSocket', 'alert', 'confirm', 'prompt',
+  'setTimeout', 'setInterval', 'setImmediate', 'queueMicrotask'
+]);
+
+// Undeclared names that are module plumbing, not global state
+const MODULE_GLOBALS = new Set(['module', 'exports']);
+
+export class PurityAnalyzer {
+  private readonly PENALTIES: Record<ImpurityKind, number> = {
+    'parameter-mutation': 0.8,
+    'captured-mutation': 0.7,
+    'global-mutation': 0.6,
+    io: 0.5,
+    nondeterminism: 0.7
+  };
+  private readonly declarations = new WeakMap<ts.SourceFile, Map<string, Declaration[]>>();
+  
+  /**
+   * Side effects of a subtree (a whole file or one unit of it)
+   */
+  analyze(root: ts.Node, resolver?: TypeResolver): PurityReport {
+    const reasons: ImpurityReason[] = [];
+    const sourceFile = root.getSourceFile();
+    const report = (kind: ImpurityKind, target: string, node: ts.Node) => {
+      reasons.push({ kind, target, span: getSpan(node, sourceFile) });
+    };
+    
+    const visit = (node: ts.Node) => {
+      for (const target of this.writeTargets(node)) {
+        this.checkWrite(target, node, root, report);
+      }
+      if (ts.isCallExpression(node) || ts.isNewExpression(node)) {
+        this.checkCall(node, resolver, report);
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(root);
+    
+    const score = reasons.reduce((product, reason) => product * this.PENALTIES[reason.kind], 1);
+    return { score, reasons };
+  }
+  
+  /**
+   * Expressions a node writes to
+   */
+  private writeTargets(node: ts.Node): ts.Expression[] {
+    if (ts.isBinaryExpression(node) &&
+        node.operatorToken.kind >= ts.SyntaxKind.FirstAssignment &&
+        node.operatorToken.kind <= ts.SyntaxKind.LastAssignment) {
+      return this.patternTargets(node.left);
+    }
+    if ((ts.isPrefixUnaryExpression(node) || ts.isPostfixUnaryExpression(node)) &&
+        (node.operator === ts.SyntaxKind.PlusPlusToken || node.operator === ts.SyntaxKind.MinusMinusToken)) {
+      return [node.operand];
+    }
+    if (ts.isDeleteExpression(node)) {
+      return [node.expression];
+    }
+    if (ts.isCallExpression(node)) {
+      const callee = skipOuterExpressions(node.expression);
+      if (ts.isPropertyAccessExpression(callee) && MUTATING_METHODS.has(callee.name.text)) {
+        return [callee.expression];
+      }
+      if (MUTATING_FUNCTIONS.has(calleePath(callee) ?? '') && node.arguments.length > 0) {
+        return [node.arguments[0]];
+      }
+    }
+    return [];
+  }
+  
+  /**
+   * Assigned expressions of a possibly destructuring assignment target
+   */
+  private patternTargets(target: ts.Expression): ts.Expression[] {
+    const inner = skipOuterExpressions(target);
+    if (ts.isArrayLiteralExpression(inner)) {
+      return inner.elements.flatMap(element => this.patternTargets(element));
+    }
+    if (ts.isObjectLiteralExpression(inner)) {
+      return inner.properties.flatMap(property => {
+        if (ts.isPropertyAssignment(property)) return this.patternTargets(property.initializer);
+        if (ts.isShorthandPropertyAssignment(property)) return [property.name];
+        if (ts.isSpreadAssignment(property)) return this.patternTargets(property.expression);
+        return [];
+      });
+    }
+    if (ts.isSpreadElement(inner)) {
+      return this.patternTargets(inner.expression);
+    }
+    if (ts.isBinaryExpression(inner) && inner.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+      return this.patternTargets(inner.left);  // Default value: [a = 1] = ...
+    }
+    return [inner];
+  }
+  
+  private checkWrite(
+    target: ts.Expression,
+    site: ts.Node,
+    root: ts.Node,
+    report: (kind: ImpurityKind, target: string, node: ts.Node) => void
+  ): void {
+    // Assigning a parameter rebinds a local; calling its mutating methods changes the caller's value
+    const rebinds = ts.isIdentifier(skipOuterExpressions(target)) && !ts.isCallExpression(site);
+    let base: ts.Expression = skipOuterExpressions(target);
+    while (ts.isPropertyAccessExpression(base) || ts.isElementAccessExpression(base)) {
+      base = skipOuterExpressions(base.expression);
+    }
+    
+    if (base.kind === ts.SyntaxKind.ThisKeyword) {
+      // Initializing its own fields is what a constructor is for
+      if (!ts.isConstructorDeclaration(thisContainer(base))) {
+        report('parameter-mutation', 'this', site);
+      }
+      return;
+    }
+    if (!ts.isIdentifier(base)) return;  // A fresh value: f().x = 1, [...a].sort()
+    
+    const declaration = this.resolve(base);
+    if (!declaration) {
+      if (!MODULE_GLOBALS.has(base.text)) report('global-mutation', base.text, site);
+    } else if (!contains(root, declaration.node)) {
+      report('captured-mutation', base.text, site);
+    } else if (declaration.isParameter && !rebinds) {
+      report('parameter-mutation', base.text, site);
+    }
+  }
+  
+  private checkCall(
+    call: ts.CallExpression | ts.NewExpression,
+    resolver: TypeResolver | undefined,
+    report: (kind: ImpurityKind, target: string, node: ts.Node) => void
+  ): void {
+    const callee = skipOuterExpressions(call.expression);
+    const path = calleePath(callee);
+    
+    if (path) {
+      const root = path.split('.')[0];
+      const declaration = this.resolve(rootIdentifier(callee)!);
+      const module = declaration && importedModule(declaration.node);
+      
+      if (module !== undefined) {
+        // Imported from a module that touches the outside world
+        const member = path.slice(root.length + 1);
+        if (calleePurity(`"${module}".${member || root}`) === 'impure') {
+          report('io', path, call);
+          return;
+        }
+      } else if (!declaration) {
+        if (NONDETERMINISTIC_CALLEES.has(path) ||
+            (path === 'Date' && (ts.isCallExpression(call) || !call.arguments?.length))) {
+          report('nondeterminism', path, call);
+          return;
+        }
+        if (IO_GLOBALS.has(root)) {
+          report('io', path, call);
+          return;
+        }
+      }
+    }
+    
+    // What the syntax cannot tell, the TypeChecker might
+    const resolved = resolver?.resolveCallee(call);
+    if (resolved?.purity === 'impure' && !this.isMutation(resolved.identity)) {
+      const nondeterministic = resolved.identity === 'Math.random' ||
+        resolved.identity === 'DateConstructor.now' ||
+        resolved.identity.startsWith('Crypto.');
+      report(nondeterministic ? 'nondeterminism' : 'io', resolved.identity, call);
+    }
+  }
+  
+  /**
+   * Mutating callees are reported by what they mutate
+   */
+  private isMutation(identity: string): boolean {
+    const method = identity.slice(identity.lastIndexOf('.') + 1);
+    return MUTATING_METHODS.has(method) || MUTATING_FUNCTIONS.has(identity.replace('ObjectConstructor.', 'Object.'));
+  }
+  
+  /**
+   * Innermost declaration of an identifier's name visible at the identifier
+   */
+  private resolve(identifier: ts.Identifier): Declaration | undefined {
+    const candidates = this.collectDeclarations(identifier.getSourceFile()).get(identifier.text) || [];
+    let best: Declaration | undefined;
+    for (const candidate of candidates) {
+      if (contains(candidate.scope, identifier) &&
+          (!best || candidate.scope.end - candidate.scope.pos < best.scope.end - best.scope.pos)) {
+        best = candidate;
+      }
+    }
+    return best;
+  }
+  
+  /**
+   * Every declared name of a file with the scope it is visible in
+   */
+  private collectDeclarations(sourceFile: ts.SourceFile): Map<string, Declaration[]> {
+    const known = this.declarations.get(sourceFile);
+    if (known) return known;
+    
+    const declarations = new Map<string, Declaration[]>();
+    const declare = (name: ts.Node | undefined, node: ts.Node, scope: ts.Node, isParameter = false) => {
+      for (const identifier of boundIdentifiers(name)) {
+        const list = declarations.get(identifier.text) || [];
+        list.push({ node, scope, isParameter });
+        declarations.set(identifier.text, list);
+      }
+    };
+    
+    const visit = (node: ts.Node) => {
+      if (ts.isParameter(node)) {
+        declare(node.name, node, node.parent, true);
+      } else if (ts.isVariableDeclaration(node)) {
+        const list = node.parent;
+        const blockScoped = ts.isVariableDeclarationList(list) && (list.flags & ts.NodeFlags.BlockScoped) !== 0;
+        declare(node.name, node, enclosingScope(node, blockScoped || ts.isCatchClause(list)));
+      } else if (ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node) || ts.isEnumDeclaration(node)) {
+        declare(node.name, node, node.parent);
+      } else if (ts.isFunctionExpression(node) || ts.isClassExpression(node)) {
+        declare(node.name, node, node);
+      } else if (ts.isImportClause(node) || ts.isNamespaceImport(node) || ts.isImportSpecifier(node) ||
+                 ts.isImportEqualsDeclaration(node)) {
+        declare(node.name, node, sourceFile);
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+    
+    this.declarations.set(sourceFile, declarations);
+    return declarations;
+  }
+}
+
+function skipOuterExpressions(node: ts.Expression): ts.Expression {
+  while (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isNonNullExpression(node) ||
+         ts.isTypeAssertionExpression(node) || ts.isSatisfiesExpression(node)) {
+    node = node.expression;
+  }
+  return node;
+}
+
+/**
+ * Dotted name of a callee (`fs.promises.readFile`), if it is one
+ */
+function calleePath(node: ts.Expression): string | undefined {
+  const inner = skipOuterExpressions(node);
+  if (ts.isIdentifier(inner)) return inner.text;
+  if (ts.isPropertyAccessExpression(inner)) {
+    const object = calleePath(inner.expression);
+    return object && `${object}.${inner.name.text}`;
+  }
+  return undefined;
+}
+
+function rootIdentifier(node: ts.Expression): ts.Identifier | undefined {
+  const inner = skipOuterExpressions(node);
+  if (ts.isIdentifier(inner)) return inner;
+  return ts.isPropertyAccessExpression(inner) ? rootIdentifier(inner.expression) : undefined;
+}
+
+/**
+ * Module specifier an import declaration binds its names from
+ */
+function importedModule(node: ts.Node): string | undefined {
+  let current: ts.Node | undefined = node;
+  while (current && !ts.isImportDeclaration(current) && !ts.isImportEqualsDeclaration(current)) {
+    current = current.parent;
+  }
+  if (!current) return undefined;
+  
+  if (ts.isImportDeclaration(current)) {
+    return ts.isStringLiteral(current.moduleSpecifier) ? current.moduleSpecifier.text : undefined;
+  }
+  const reference = current.moduleReference;
+  return ts.isExternalModuleReference(reference) && ts.isStringLiteral(reference.expression)
+    ? reference.expression.text
+    : undefined;
+}
+
+function boundIdentifiers(name: ts.Node | undefined): ts.Identifier[] {
+  if (!name) return [];
+  if (ts.isIdentifier(name)) return [name];
+  if (ts.isObjectBindingPattern(name) || ts.isArrayBindingPattern(name)) {
+    return name.elements.flatMap(element => (ts.isBindingElement(element) ? boundIdentifiers(element.name) : []));
+  }
+  return [];
+}
+
+/**
+ * Scope of a variable: the nearest block for let/const, the nearest
+ * function for var
+ */
+function enclosingScope(node: ts.Node, blockScoped: boolean): ts.Node {
+  let current = node.parent;
+  while (!ts.isSourceFile(current) && !ts.isFunctionLike(current) &&
+         !(blockScoped && (ts.isBlock(current) || ts.isCaseBlock(current) || ts.isModuleBlock(current) ||
+                           ts.isCatchClause(current) || ts.isIterationStatement(current, false)))) {
+    current = current.parent;
+  }
+  return current;
+}
+
+/**
+ * Function whose `this` a `this` keyword refers to (arrows inherit it)
+ */
+function thisContainer(node: ts.Node): ts.Node {
+  let current = node.parent;
+  while (!ts.isSourceFile(current) && !(ts.isFunctionLike(current) && !ts.isArrowFunction(current))) {
+    current = current.parent;
+  }
+  return current;
+}
+
+function contains(outer: ts.Node, inner: ts.Node): boolean {
+  return outer.pos <= inner.pos && inner.end <= outer.end;
+}
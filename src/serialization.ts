@@ -0,0 +1,218 @@
+/**
+ * 💾 Serialization - A stable wire format for results and graphs
+ *
+ * Values are written as canonical JSON (sorted keys, no whitespace) inside
+ * a versioned envelope, so equal results always serialize to equal bytes.
+ * Reading validates against the published JSON Schema.
+ */
+
+import { ProteinHashResult, LogicalGraph, GraphNode } from './protein-hasher';
+import { SerializationError } from './errors';
+import resultSchema from './schema/protein-hash-result.schema.json';
+
+export const RESULT_SCHEMA_VERSION = 1;
+
+/**
+ * The published JSON Schema (draft-07) of the serialized envelope
+ */
+export const RESULT_SCHEMA: object = resultSchema;
+
+type JsonSchema = {
+  $ref?: string;
+  type?: string | string[];
+  const?: unknown;
+  enum?: unknown[];
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  minProperties?: number;
+  maxProperties?: number;
+  definitions?: Record<string, JsonSchema>;
+};
+
+const SCHEMA = resultSchema as JsonSchema;
+
+interface SerializedGraph {
+  nodes: GraphNode[];
+  edges: LogicalGraph['edges'];
+}
+
+/**
+ * Serialize a hash result to canonical JSON
+ */
+export function serializeResult(result: ProteinHashResult): string {
+  const encoded = result.graph ? { ...result, graph: encodeGraph(result.graph) } : result;
+  return canonicalJson({ schemaVersion: RESULT_SCHEMA_VERSION, result: encoded });
+}
+
+/**
+ * Parse and validate a serialized hash result
+ */
+export function deserializeResult(json: string): ProteinHashResult {
+  const envelope = readEnvelope(json, 'result');
+  const { graph, ...result } = envelope.result as Omit<ProteinHashResult, 'graph'> & { graph?: SerializedGraph };
+  return graph ? { ...result, graph: decodeGraph(graph) } : result;
+}
+
+/**
+ * Serialize a logical graph to canonical JSON. Nodes keep their Map order.
+ */
+export function serializeGraph(graph: LogicalGraph): string {
+  return canonicalJson({ schemaVersion: RESULT_SCHEMA_VERSION, graph: encodeGraph(graph) });
+}
+
+/**
+ * Parse and validate a serialized logical graph
+ */
+export function deserializeGraph(json: string): LogicalGraph {
+  const envelope = readEnvelope(json, 'graph');
+  return decodeGraph(envelope.graph as SerializedGraph);
+}
+
+/**
+ * JSON with object keys sorted at every level. Throws on values JSON
+ * cannot represent faithfully (NaN, Infinity, Map, functions, ...).
+ */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(canonicalize(value, '$'));
+}
+
+function encodeGraph(graph: LogicalGraph): SerializedGraph {
+  return { nodes: Array.from(graph.nodes.values()), edges: graph.edges };
+}
+
+function decodeGraph(serialized: SerializedGraph): LogicalGraph {
+  return {
+    nodes: new Map(serialized.nodes.map(node => [node.id, node])),
+    edges: serialized.edges
+  };
+}
+
+function canonicalize(value: unknown, path: string): unknown {
+  if (value === null || typeof value === 'string' || typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new SerializationError(`Cannot serialize non-finite number ${value} at ${path}`, path);
+    }
+    return Object.is(value, -0) ? 0 : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, i) => canonicalize(item, `${path}[${i}]`));
+  }
+  if (typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    const sorted: Record<string, unknown> = {};
+    for (const key of Object.keys(value as object).sort()) {
+      const item = (value as Record<string, unknown>)[key];
+      if (item !== undefined) {
+        sorted[key] = canonicalize(item, `${path}.${key}`);
+      }
+    }
+    return sorted;
+  }
+  
+  const kind = value instanceof Map ? 'Map' : typeof value;
+  throw new SerializationError(`Cannot serialize ${kind} at ${path}`, path);
+}
+
+function readEnvelope(json: string, field: 'result' | 'graph'): Record<string, unknown> {
+  let envelope: unknown;
+  try {
+    envelope = JSON.parse(json);
+  } catch (error) {
+    throw new SerializationError(`Invalid JSON: ${(error as Error).message}`, '$');
+  }
+  
+  const version = (envelope as { schemaVersion?: unknown } | null)?.schemaVersion;
+  if (version !== RESULT_SCHEMA_VERSION) {
+    throw new SerializationError(
+      `Unsupported schema version ${JSON.stringify(version)}, expected ${RESULT_SCHEMA_VERSION}`,
+      '$.schemaVersion'
+    );
+  }
+  
+  validate(envelope, SCHEMA, '$');
+  const result = envelope as Record<string, unknown>;
+  if (!(field in result)) {
+    throw new SerializationError(`Expected a serialized ${field}`, `$.${field}`);
+  }
+  
+  return result;
+}
+
+/**
+ * Validate against the subset of JSON Schema the published schema uses
+ */
+function validate(value: unknown, schema: JsonSchema, path: string): void {
+  const fail = (message: string): never => {
+    throw new SerializationError(`${path}: ${message}`, path);
+  };
+  
+  if (schema.$ref) {
+    const name = schema.$ref.replace('#/definitions/', '');
+    validate(value, SCHEMA.definitions![name], path);
+    return;
+  }
+  
+  if (schema.const !== undefined && value !== schema.const) {
+    fail(`expected ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    fail(`expected one of ${schema.enum.join(', ')}`);
+  }
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => hasType(value, type))) {
+      fail(`expected ${types.join(' or ')}`);
+    }
+  }
+  
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) fail(`must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) fail(`must be <= ${schema.maximum}`);
+  }
+  if (typeof value === 'string' && schema.pattern && !new RegExp(schema.pattern).test(value)) {
+    fail(`does not match ${schema.pattern}`);
+  }
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => validate(item, schema.items!, `${path}[${i}]`));
+  }
+  
+  if (hasType(value, 'object')) {
+    const object = value as Record<string, unknown>;
+    const keys = Object.keys(object);
+    if (schema.minProperties !== undefined && keys.length < schema.minProperties) {
+      fail(`expected at least ${schema.minProperties} properties`);
+    }
+    if (schema.maxProperties !== undefined && keys.length > schema.maxProperties) {
+      fail(`expected at most ${schema.maxProperties} properties`);
+    }
+    for (const key of schema.required || []) {
+      if (!(key in object)) fail(`missing property ${key}`);
+    }
+    for (const key of keys) {
+      const property = schema.properties?.[key];
+      if (property) {
+        validate(object[key], property, `${path}.${key}`);
+      } else if (schema.additionalProperties === false) {
+        fail(`unexpected property ${key}`);
+      }
+    }
+  }
+}
+
+function hasType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'object': return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array': return Array.isArray(value);
+    case 'integer': return Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'null': return value === null;
+    default: return typeof value === type;
+  }
+}
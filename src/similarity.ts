@@ -0,0 +1,276 @@
+/**
+ * 📐 Similarity - How the similarity score of two hashes is composed
+ *
+ * A similarity strategy compares two results (spectral cosine by default),
+ * optionally blended with topology, pattern and consciousness similarity.
+ * Built-in strategies are selected by name; custom ones are passed as objects.
+ */
+
+import { ProteinHashResult, LogicalGraph } from './protein-hasher';
+import { TopologyFeatures } from './topology-detector';
+import { ComplexPattern } from './complex-structures';
+import { checkResonance } from './consciousness-detector';
+import { wlFeatures } from './wl-hash';
+
+export interface SimilarityStrategy {
+  name: string;
+  requiresGraph?: boolean;     // Compares logical graphs: results must be computed with includeGraph
+  compare(hash1: ProteinHashResult, hash2: ProteinHashResult): number;  // 0..1
+}
+
+export interface SimilarityOptions {
+  strategy?: string | SimilarityStrategy;  // Built-in name or custom strategy (default: cosine)
+  consciousness?: boolean;                 // Blend in topology, patterns and consciousness resonance when both results have them (default: true)
+}
+
+export interface WeightedStrategy {
+  strategy: string | SimilarityStrategy;
+  weight: number;              // Positive; weights are normalized to sum to 1
+}
+
+export interface ScoreComponent {
+  similarity: number;    // Raw similarity of this aspect, 0..1
+  weight: number;        // Share of the final score
+  contribution: number;  // similarity * weight
+}
+
+export interface ScoreBreakdown {
+  score: number;         // Sum of all contributions
+  strategy: string;      // Name of the similarity strategy
+  spectral: ScoreComponent;  // What the strategy measured (the spectral cosine by default)
+  topology?: ScoreComponent;
+  patterns?: ScoreComponent;
+  consciousness?: ScoreComponent;
+}
+
+export const SPECTRAL_WEIGHT = 0.6;
+export const TOPOLOGY_WEIGHT = 0.1;
+export const PATTERN_WEIGHT = 0.1;
+export const CONSCIOUSNESS_WEIGHT = 0.2;
+
+export const DEFAULT_SIMILARITY_STRATEGY = 'cosine';
+
+export const SIMILARITY_STRATEGIES: Readonly<Record<string, SimilarityStrategy>> = {
+  // Angle between the spectra: scale-free, the score compareSimilarity has always used
+  cosine: {
+    name: DEFAULT_SIMILARITY_STRATEGY,
+    compare: (hash1, hash2) => cosineSimilarity(hash1.eigenTop, hash2.eigenTop)
+  },
+  
+  // Distance between the spectra relative to their size: also sees scale
+  euclidean: {
+    name: 'euclidean',
+    compare: (hash1, hash2) => {
+      const scale = norm(hash1.eigenTop) + norm(hash2.eigenTop);
+      return scale === 0 ? 1 : 1 - euclideanDistance(hash1.eigenTop, hash2.eigenTop) / scale;
+    }
+  },
+  
+  // Shared node labels, ignoring how the nodes are connected
+  'label-jaccard': {
+    name: 'label-jaccard',
+    requiresGraph: true,
+    compare: (hash1, hash2) => multisetJaccard(
+      labelCounts(graphOf(hash1, 'label-jaccard')),
+      labelCounts(graphOf(hash2, 'label-jaccard'))
+    )
+  },
+  
+  // Normalized Weisfeiler-Lehman subtree kernel: shared neighborhoods of every radius
+  'wl-kernel': {
+    name: 'wl-kernel',
+    requiresGraph: true,
+    compare: (hash1, hash2) => {
+      const f1 = wlFeatures(graphOf(hash1, 'wl-kernel'));
+      const f2 = wlFeatures(graphOf(hash2, 'wl-kernel'));
+      if (f1.size === 0 || f2.size === 0) return f1.size === f2.size ? 1 : 0;
+      return Math.min(kernel(f1, f2) / Math.sqrt(kernel(f1, f1) * kernel(f2, f2)), 1);
+    }
+  }
+};
+
+/**
+ * Strategy for a name or a custom strategy object
+ */
+export function resolveSimilarityStrategy(
+  strategy: string | SimilarityStrategy = DEFAULT_SIMILARITY_STRATEGY
+): SimilarityStrategy {
+  if (typeof strategy === 'string') {
+    if (!Object.prototype.hasOwnProperty.call(SIMILARITY_STRATEGIES, strategy)) {
+      throw new Error(`Unknown similarity strategy ${strategy}; expected one of ${Object.keys(SIMILARITY_STRATEGIES).join(', ')}`);
+    }
+    return SIMILARITY_STRATEGIES[strategy];
+  }
+  
+  if (typeof strategy.compare !== 'function') {
+    throw new Error(`Similarity strategy ${strategy.name} has no compare function`);
+  }
+  return strategy;
+}
+
+/**
+ * Weighted mean of several strategies
+ */
+export function compositeStrategy(parts: WeightedStrategy[], name: string = 'composite'): SimilarityStrategy {
+  if (parts.length === 0) {
+    throw new Error('A composite similarity strategy needs at least one part');
+  }
+  for (const { weight } of parts) {
+    if (!Number.isFinite(weight) || weight <= 0) {
+      throw new Error(`Composite similarity weights must be positive and finite, got ${weight}`);
+    }
+  }
+  
+  const total = parts.reduce((sum, part) => sum + part.weight, 0);
+  const resolved = parts.map(part => ({ strategy: resolveSimilarityStrategy(part.strategy), weight: part.weight / total }));
+  
+  return {
+    name,
+    requiresGraph: resolved.some(part => part.strategy.requiresGraph),
+    compare: (hash1, hash2) => resolved.reduce(
+      (sum, part) => sum + part.weight * part.strategy.compare(hash1, hash2),
+      0
+    )
+  };
+}
+
+/**
+ * Break the similarity of two results down into its components.
+ * Topology, pattern and consciousness components are present only when both
+ * results carry advanced analysis.
+ */
+export function scoreBreakdown(
+  hash1: ProteinHashResult,
+  hash2: ProteinHashResult,
+  options: SimilarityOptions = {}
+): ScoreBreakdown {
+  const strategy = resolveSimilarityStrategy(options.strategy);
+  const similarity = strategy.compare(hash1, hash2);
+  
+  // Without a spectrum there is nothing to resonate; without advanced
+  // analysis (or with the blend turned off) the strategy is the whole score
+  if (options.consciousness === false ||
+      hash1.eigenTop.length === 0 || hash2.eigenTop.length === 0 ||
+      !hash1.topology || !hash2.topology || !hash1.patterns || !hash2.patterns ||
+      !hash1.consciousness || !hash2.consciousness) {
+    return { score: similarity, strategy: strategy.name, spectral: component(similarity, 1) };
+  }
+  
+  const spectral = component(similarity, SPECTRAL_WEIGHT);
+  const topology = component(topologySimilarity(hash1.topology, hash2.topology), TOPOLOGY_WEIGHT);
+  const patterns = component(patternSimilarity(hash1.patterns, hash2.patterns), PATTERN_WEIGHT);
+  const consciousness = component(checkResonance(hash1.consciousness, hash2.consciousness), CONSCIOUSNESS_WEIGHT);
+  return {
+    score: spectral.contribution + topology.contribution + patterns.contribution + consciousness.contribution,
+    strategy: strategy.name,
+    spectral,
+    topology,
+    patterns,
+    consciousness
+  };
+}
+
+/**
+ * Cosine similarity of eigenvalue vectors (0 if either is empty)
+ */
+export function cosineSimilarity(v1: number[], v2: number[]): number {
+  if (v1.length === 0 || v2.length === 0) return 0;
+  
+  const dotProduct = v1.reduce((sum, val, i) => sum + val * (v2[i] || 0), 0);
+  const norm1 = Math.sqrt(v1.reduce((sum, val) => sum + val * val, 0));
+  const norm2 = Math.sqrt(v2.reduce((sum, val) => sum + val * val, 0));
+  
+  return dotProduct / (norm1 * norm2);
+}
+
+/**
+ * Euclidean distance of eigenvalue vectors, the shorter padded with zeros
+ */
+export function euclideanDistance(v1: number[], v2: number[]): number {
+  const length = Math.max(v1.length, v2.length);
+  let sum = 0;
+  for (let i = 0; i < length; i++) {
+    sum += Math.pow((v1[i] || 0) - (v2[i] || 0), 2);
+  }
+  return Math.sqrt(sum);
+}
+
+/**
+ * Mean agreement of topological features: booleans match or not,
+ * numbers by their relative difference
+ */
+export function topologySimilarity(t1: TopologyFeatures, t2: TopologyFeatures): number {
+  const flags: Array<keyof TopologyFeatures> = ['hasCycles', 'hasRecursion', 'isDAG'];
+  const measures: Array<keyof TopologyFeatures> = [
+    'branchingFactor', 'nestingDepth', 'loopComplexity', 'stronglyConnectedComponents'
+  ];
+  
+  let total = 0;
+  for (const flag of flags) {
+    total += t1[flag] === t2[flag] ? 1 : 0;
+  }
+  for (const measure of measures) {
+    const a = t1[measure] as number;
+    const b = t2[measure] as number;
+    const scale = Math.max(Math.abs(a), Math.abs(b));
+    total += scale === 0 ? 1 : 1 - Math.abs(a - b) / scale;
+  }
+  
+  return total / (flags.length + measures.length);
+}
+
+/**
+ * Multiset Jaccard similarity of detected pattern types
+ */
+export function patternSimilarity(p1: ComplexPattern[], p2: ComplexPattern[]): number {
+  const count = (patterns: ComplexPattern[]) => {
+    const counts = new Map<string, number>();
+    for (const pattern of patterns) {
+      counts.set(pattern.type, (counts.get(pattern.type) || 0) + 1);
+    }
+    return counts;
+  };
+  
+  return multisetJaccard(count(p1), count(p2));
+}
+
+function multisetJaccard(c1: Map<string, number>, c2: Map<string, number>): number {
+  let shared = 0;
+  let all = 0;
+  for (const key of new Set([...c1.keys(), ...c2.keys()])) {
+    shared += Math.min(c1.get(key) || 0, c2.get(key) || 0);
+    all += Math.max(c1.get(key) || 0, c2.get(key) || 0);
+  }
+  return all === 0 ? 1 : shared / all;
+}
+
+function labelCounts(graph: LogicalGraph): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const node of graph.nodes.values()) {
+    counts.set(node.label, (counts.get(node.label) || 0) + 1);
+  }
+  return counts;
+}
+
+function kernel(f1: Map<string, number>, f2: Map<string, number>): number {
+  let sum = 0;
+  for (const [key, count] of f1) {
+    sum += count * (f2.get(key) || 0);
+  }
+  return sum;
+}
+
+function norm(v: number[]): number {
+  return Math.sqrt(v.reduce((sum, val) => sum + val * val, 0));
+}
+
+function graphOf(hash: ProteinHashResult, strategy: string): LogicalGraph {
+  if (!hash.graph) {
+    throw new Error(`Similarity strategy ${strategy} compares logical graphs; compute the hashes with includeGraph`);
+  }
+  return hash.graph;
+}
+
+function component(similarity: number, weight: number): ScoreComponent {
+  return { similarity, weight, contribution: similarity * weight };
+}
@@ -0,0 +1,140 @@
+/**
+ * 🗺️ Source Units - Functions, methods and classes with their locations
+ *
+ * Walks a ts.SourceFile and finds the units that get their own fingerprint.
+ */
+
+import * as ts from 'typescript';
+
+export type CodeUnitKind = 'function' | 'method' | 'arrow' | 'class';
+
+export interface SourcePosition {
+  line: number;   // 1-based
+  column: number; // 1-based
+}
+
+export interface SourceSpan {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+export interface CodeUnit {
+  name: string;
+  kind: CodeUnitKind;
+  span: SourceSpan;
+  node: ts.Node;
+}
+
+const ANONYMOUS = '<anonymous>';
+
+/**
+ * Location of a node, excluding leading trivia (comments, whitespace)
+ */
+export function getSpan(node: ts.Node, sourceFile: ts.SourceFile): SourceSpan {
+  return getRangeSpan(node.getStart(sourceFile), node.getEnd(), sourceFile);
+}
+
+/**
+ * Location of a character range
+ */
+export function getRangeSpan(start: number, end: number, sourceFile: ts.SourceFile): SourceSpan {
+  const toPosition = (pos: number): SourcePosition => {
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(pos);
+    return { line: line + 1, column: character + 1 };
+  };
+  
+  return {
+    start: toPosition(start),
+    end: toPosition(end)
+  };
+}
+
+/**
+ * The same span a number of lines further down (up when negative)
+ */
+export function moveSpan(span: SourceSpan, lines: number): SourceSpan {
+  return {
+    start: { line: span.start.line + lines, column: span.start.column },
+    end: { line: span.end.line + lines, column: span.end.column }
+  };
+}
+
+/**
+ * Collect every function, method, arrow function and class in document order
+ */
+export function collectCodeUnits(sourceFile: ts.SourceFile): CodeUnit[] {
+  const units: CodeUnit[] = [];
+  
+  const visit = (node: ts.Node) => {
+    const kind = getUnitKind(node);
+    if (kind) {
+      units.push({
+        name: getUnitName(node),
+        kind,
+        span: getSpan(node, sourceFile),
+        node
+      });
+    }
+    ts.forEachChild(node, visit);
+  };
+  
+  visit(sourceFile);
+  return units;
+}
+
+/**
+ * Unit kind of a node, or null if it is not a hashable unit
+ */
+export function getUnitKind(node: ts.Node): CodeUnitKind | null {
+  if (ts.isFunctionDeclaration(node) || ts.isFunctionExpression(node)) {
+    // Overload signatures have no body and no behavior of their own
+    return node.body ? 'function' : null;
+  }
+  if (ts.isMethodDeclaration(node) || ts.isConstructorDeclaration(node) || ts.isAccessor(node)) {
+    return node.body ? 'method' : null;
+  }
+  if (ts.isArrowFunction(node)) {
+    return 'arrow';
+  }
+  if (ts.isClassDeclaration(node) || ts.isClassExpression(node)) {
+    return 'class';
+  }
+  return null;
+}
+
+/**
+ * Best-effort name: declared name, the binding it is assigned to,
+ * and the owning class for members
+ */
+export function getUnitName(node: ts.Node): string {
+  let name = ts.isConstructorDeclaration(node) ? 'constructor' : declaredName(node);
+  
+  // Anonymous functions and classes take the name they are bound to
+  if (!name && node.parent) {
+    const parent = node.parent;
+    if (ts.isVariableDeclaration(parent) ||
+        ts.isPropertyAssignment(parent) ||
+        ts.isPropertyDeclaration(parent)) {
+      name = declaredName(parent);
+    }
+  }
+  
+  // Methods and arrow-function properties are qualified by their class
+  const member = ts.isClassElement(node)
+    ? node
+    : node.parent && ts.isPropertyDeclaration(node.parent) ? node.parent : undefined;
+  if (member && member.parent && ts.isClassLike(member.parent)) {
+    return `${getUnitName(member.parent)}.${name || ANONYMOUS}`;
+  }
+  
+  return name || ANONYMOUS;
+}
+
+function declaredName(node: ts.Node): string {
+  const name = (node as ts.NamedDeclaration).name;
+  if (!name) return '';
+  if (ts.isIdentifier(name) || ts.isPrivateIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+    return name.text;
+  }
+  return name.getText();
+}
@@ -0,0 +1,396 @@
+/**
+ * 📐 Spectral Toolkit - Deterministic eigen-decomposition
+ *
+ * Phashes are stored and compared across runs, machines and Node versions,
+ * so everything here is free of randomness and uses only IEEE-exact
+ * arithmetic (+, -, *, /, sqrt) in a fixed evaluation order.
+ */
+
+const MAX_JACOBI_SWEEPS = 100;
+const JACOBI_TOLERANCE = 1e-24; // Relative off-diagonal mass at convergence
+
+/**
+ * All eigenvalues of a real symmetric matrix (cyclic Jacobi rotations)
+ */
+export function jacobiEigenvalues(matrix: number[][]): number[] {
+  const n = matrix.length;
+  if (n === 0) return [];
+  
+  const a = matrix.map(row => row.slice());
+  
+  let total = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      total += a[i][j] * a[i][j];
+    }
+  }
+  
+  for (let sweep = 0; sweep < MAX_JACOBI_SWEEPS; sweep++) {
+    // Off-diagonal mass decides convergence
+    let off = 0;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        off += a[p][q] * a[p][q];
+      }
+    }
+    if (off <= JACOBI_TOLERANCE * total) break;
+    
+    // One cyclic sweep over the upper triangle, always in the same order
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        const apq = a[p][q];
+        if (apq === 0) continue;
+        
+        const theta = (a[q][q] - a[p][p]) / (2 * apq);
+        const sign = theta >= 0 ? 1 : -1;
+        const t = sign / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        
+        // A <- A * P
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        
+        // A <- P^T * A
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        
+        a[p][q] = 0;
+        a[q][p] = 0;
+      }
+    }
+  }
+  
+  return a.map((row, i) => row[i]);
+}
+
+/**
+ * Largest k eigenvalues of a real symmetric matrix, in descending order
+ */
+export function topEigenvalues(matrix: number[][], k: number): number[] {
+  return jacobiEigenvalues(matrix)
+    .sort((x, y) => y - x)
+    .slice(0, k);
+}
+
+/**
+ * Compressed sparse row matrix
+ */
+export interface CsrMatrix {
+  size: number;
+  rowPtr: Int32Array;    // Row i occupies [rowPtr[i], rowPtr[i + 1])
+  colIndex: Int32Array;
+  values: Float64Array;
+}
+
+export interface WeightedEdge {
+  from: number;
+  to: number;
+  weight: number;
+}
+
+const DENSE_SPECTRUM_LIMIT = 64; // Jacobi below this size, Lanczos above
+const LANCZOS_MAX_STEPS = 300;
+const LANCZOS_CHECK_INTERVAL = 5;
+const LANCZOS_TOLERANCE = 1e-10;
+const BISECTION_STEPS = 200;
+
+/**
+ * Laplacian (D - A) of an undirected weighted graph, built directly in CSR form.
+ * Memory is O(n + e); repeated edges between the same pair keep the last
+ * weight and self-loops cancel out, exactly like the dense construction.
+ */
+export function sparseLaplacian(size: number, edges: WeightedEdge[]): CsrMatrix {
+  const rows: Map<number, number>[] = Array.from({ length: size }, () => new Map());
+  
+  for (const { from, to, weight } of edges) {
+    if (from === to) continue;
+    rows[from].set(to, weight);
+    rows[to].set(from, weight);
+  }
+  
+  let nonZeros = 0;
+  for (const row of rows) nonZeros += row.size + 1;
+  
+  const rowPtr = new Int32Array(size + 1);
+  const colIndex = new Int32Array(nonZeros);
+  const values = new Float64Array(nonZeros);
+  
+  let offset = 0;
+  for (let i = 0; i < size; i++) {
+    rowPtr[i] = offset;
+    
+    let degree = 0;
+    for (const weight of rows[i].values()) degree += weight;
+    
+    const columns = Array.from(rows[i].keys());
+    columns.push(i);
+    columns.sort((a, b) => a - b);
+    
+    for (const j of columns) {
+      colIndex[offset] = j;
+      values[offset] = j === i ? degree : -rows[i].get(j)!;
+      offset++;
+    }
+  }
+  rowPtr[size] = offset;
+  
+  return { size, rowPtr, colIndex, values };
+}
+
+/**
+ * Expand a CSR matrix into a dense row-major array
+ */
+export function csrToDense(matrix: CsrMatrix): number[][] {
+  const dense = Array.from({ length: matrix.size }, () => Array(matrix.size).fill(0));
+  
+  for (let i = 0; i < matrix.size; i++) {
+    for (let p = matrix.rowPtr[i]; p < matrix.rowPtr[i + 1]; p++) {
+      dense[i][matrix.colIndex[p]] = matrix.values[p];
+    }
+  }
+  
+  return dense;
+}
+
+/**
+ * Largest k eigenvalues of a symmetric CSR matrix, in descending order.
+ * Small matrices go through dense Jacobi; large ones through Lanczos.
+ */
+export function topSparseEigenvalues(matrix: CsrMatrix, k: number): number[] {
+  if (matrix.size === 0) return [];
+  
+  if (matrix.size <= DENSE_SPECTRUM_LIMIT) {
+    return topEigenvalues(csrToDense(matrix), k);
+  }
+  
+  return lanczosTopEigenvalues(matrix, k);
+}
+
+/**
+ * Largest k eigenvalues of a symmetric CSR matrix via Lanczos with locking.
+ *
+ * Each eigenpair is found by a fully reorthogonalized Lanczos run that is
+ * kept orthogonal to the eigenvectors already locked, so repeated
+ * eigenvalues are reported with their multiplicity.
+ */
+export function lanczosTopEigenvalues(matrix: CsrMatrix, k: number): number[] {
+  const count = Math.min(k, matrix.size);
+  const scale = Math.max(1, gershgorinBound(matrix));
+  const locked: Float64Array[] = [];
+  const eigenvalues: number[] = [];
+  
+  for (let i = 0; i < count; i++) {
+    const { value, vector } = largestEigenpair(matrix, locked, scale, i + 1);
+    eigenvalues.push(value);
+    locked.push(vector);
+  }
+  
+  return eigenvalues.sort((x, y) => y - x);
+}
+
+/**
+ * Largest eigenpair of the matrix restricted to the complement of `locked`
+ */
+function largestEigenpair(
+  matrix: CsrMatrix,
+  locked: Float64Array[],
+  scale: number,
+  seed: number
+): { value: number; vector: Float64Array } {
+  const n = matrix.size;
+  const maxSteps = Math.min(n - locked.length, LANCZOS_MAX_STEPS);
+  
+  const start = seededVector(n, seed);
+  orthogonalize(start, locked);
+  scaleInPlace(start, 1 / norm(start));
+  
+  const basis: Float64Array[] = [start];
+  const alpha: number[] = [];
+  const beta: number[] = [];
+  
+  for (let j = 0; j < maxSteps; j++) {
+    const w = new Float64Array(n);
+    multiplyCsr(matrix, basis[j], w);
+    alpha.push(dot(w, basis[j]));
+    
+    // Full reorthogonalization, twice for numerical safety
+    orthogonalize(w, locked);
+    orthogonalize(w, basis);
+    orthogonalize(w, locked);
+    orthogonalize(w, basis);
+    
+    const b = norm(w);
+    const exhausted = j + 1 === maxSteps || b <= LANCZOS_TOLERANCE * scale;
+    
+    if (exhausted || (j + 1) % LANCZOS_CHECK_INTERVAL === 0) {
+      const theta = largestTridiagonalEigenvalue(alpha, beta, scale);
+      const y = tridiagonalEigenvector(alpha, beta, theta, scale);
+      
+      // Residual of the Ritz pair is |b * y_last|
+      if (exhausted || Math.abs(b * y[j]) <= LANCZOS_TOLERANCE * scale) {
+        const vector = new Float64Array(n);
+        for (let i = 0; i <= j; i++) {
+          axpy(y[i], basis[i], vector);
+        }
+        orthogonalize(vector, locked);
+        scaleInPlace(vector, 1 / norm(vector));
+        return { value: theta, vector };
+      }
+    }
+    
+    beta.push(b);
+    scaleInPlace(w, 1 / b);
+    basis.push(w);
+  }
+  
+  // maxSteps >= 1 always returns inside the loop
+  throw new Error('Lanczos iteration did not run');
+}
+
+/**
+ * Largest eigenvalue of a symmetric tridiagonal matrix by Sturm bisection
+ */
+function largestTridiagonalEigenvalue(alpha: number[], beta: number[], scale: number): number {
+  const m = alpha.length;
+  let lo = Infinity;
+  let hi = -Infinity;
+  
+  // Gershgorin interval
+  for (let i = 0; i < m; i++) {
+    const radius = (i > 0 ? Math.abs(beta[i - 1]) : 0) + (i < m - 1 ? Math.abs(beta[i]) : 0);
+    lo = Math.min(lo, alpha[i] - radius);
+    hi = Math.max(hi, alpha[i] + radius);
+  }
+  
+  for (let step = 0; step < BISECTION_STEPS && hi - lo > Number.EPSILON * scale; step++) {
+    const mid = lo + (hi - lo) / 2;
+    if (sturmCount(alpha, beta, mid) >= m) {
+      hi = mid;
+    } else {
+      lo = mid;
+    }
+  }
+  
+  return hi;
+}
+
+/**
+ * Number of eigenvalues of the tridiagonal matrix strictly below x
+ */
+function sturmCount(alpha: number[], beta: number[], x: number): number {
+  let count = 0;
+  let d = 1;
+  
+  for (let i = 0; i < alpha.length; i++) {
+    d = alpha[i] - x - (i > 0 ? (beta[i - 1] * beta[i - 1]) / d : 0);
+    if (d === 0) d = -Number.MIN_VALUE;
+    if (d < 0) count++;
+  }
+  
+  return count;
+}
+
+/**
+ * Eigenvector of a tridiagonal matrix for its largest eigenvalue theta,
+ * by inverse iteration with a shift just above theta
+ */
+function tridiagonalEigenvector(alpha: number[], beta: number[], theta: number, scale: number): number[] {
+  const m = alpha.length;
+  const shift = theta + LANCZOS_TOLERANCE * scale;
+  let x: number[] = Array(m).fill(1);
+  
+  for (let iter = 0; iter < 3; iter++) {
+    // (T - shift I) is negative definite, so the Thomas algorithm is stable
+    const c: number[] = Array(m).fill(0);
+    const d: number[] = Array(m).fill(0);
+    
+    for (let i = 0; i < m; i++) {
+      const diag = alpha[i] - shift - (i > 0 ? beta[i - 1] * c[i - 1] : 0);
+      c[i] = i < m - 1 ? beta[i] / diag : 0;
+      d[i] = (x[i] - (i > 0 ? beta[i - 1] * d[i - 1] : 0)) / diag;
+    }
+    
+    const next: number[] = Array(m).fill(0);
+    for (let i = m - 1; i >= 0; i--) {
+      next[i] = d[i] - (i < m - 1 ? c[i] * next[i + 1] : 0);
+    }
+    
+    const length = Math.sqrt(next.reduce((sum, v) => sum + v * v, 0));
+    x = next.map(v => v / length);
+  }
+  
+  return x;
+}
+
+function gershgorinBound(matrix: CsrMatrix): number {
+  let bound = 0;
+  for (let i = 0; i < matrix.size; i++) {
+    let row = 0;
+    for (let p = matrix.rowPtr[i]; p < matrix.rowPtr[i + 1]; p++) {
+      row += Math.abs(matrix.values[p]);
+    }
+    bound = Math.max(bound, row);
+  }
+  return bound;
+}
+
+function multiplyCsr(matrix: CsrMatrix, x: Float64Array, out: Float64Array): void {
+  for (let i = 0; i < matrix.size; i++) {
+    let sum = 0;
+    for (let p = matrix.rowPtr[i]; p < matrix.rowPtr[i + 1]; p++) {
+      sum += matrix.values[p] * x[matrix.colIndex[p]];
+    }
+    out[i] = sum;
+  }
+}
+
+/**
+ * Deterministic start vector (xorshift32) - never the constant vector,
+ * which is the Laplacian's null space
+ */
+function seededVector(n: number, seed: number): Float64Array {
+  const v = new Float64Array(n);
+  let state = (0x9e3779b9 ^ seed) | 0;
+  
+  for (let i = 0; i < n; i++) {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    v[i] = (state >>> 0) / 0x100000000 - 0.5;
+  }
+  
+  return v;
+}
+
+function orthogonalize(v: Float64Array, against: Float64Array[]): void {
+  for (const q of against) {
+    axpy(-dot(v, q), q, v);
+  }
+}
+
+function dot(a: Float64Array, b: Float64Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+function norm(v: Float64Array): number {
+  return Math.sqrt(dot(v, v));
+}
+
+function axpy(a: number, x: Float64Array, y: Float64Array): void {
+  for (let i = 0; i < x.length; i++) y[i] += a * x[i];
+}
+
+function scaleInPlace(v: Float64Array, a: number): void {
+  for (let i = 0; i < v.length; i++) v[i] *= a;
+}
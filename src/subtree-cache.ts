@@ -0,0 +1,156 @@
+/**
+ * 🧩 Subtree Cache - Partial results keyed by what they were computed from
+ *
+ * Subtrees are identified by a Merkle hash over their kind, their own text
+ * and their children's hashes, memoized per node object: after
+ * ts.updateSourceFile only the nodes on the edited path are rehashed.
+ * Values computed for a subtree are shared by every subtree with the same
+ * text at the same column, so spans only need to move by whole lines.
+ *
+ * Values are kept for one generation after their last use. A value that is
+ * used again keeps the values it was built from, which are not looked up
+ * while their enclosing subtree does not change.
+ */
+
+import { createHash } from 'crypto';
+import * as ts from 'typescript';
+import { LogicalGraph } from './protein-hasher';
+
+export interface SubtreeStats {
+  reused: number;    // Values served from the cache since the generation started
+  computed: number;  // Values computed since the generation started
+}
+
+interface CacheEntry {
+  value: unknown;
+  uses: string[];    // Keys of the entries the value was built from
+}
+
+export class SubtreeCache {
+  private readonly merkleHashes = new WeakMap<ts.Node, string>();
+  private current = new Map<string, CacheEntry>();
+  private previous = new Map<string, CacheEntry>();
+  private readonly computing: string[][] = [];
+  private stats: SubtreeStats = { reused: 0, computed: 0 };
+  private owner?: object;
+  
+  /**
+   * Tie the cache to the hasher that fills it, since values depend on its
+   * config
+   */
+  claim(owner: object): void {
+    if (this.owner !== undefined && this.owner !== owner) {
+      throw new Error('SubtreeCache is already used by another hasher');
+    }
+    this.owner = owner;
+  }
+  
+  /**
+   * Merkle hash of a subtree: its kind, the text between its children and
+   * the children's own hashes. Equal hashes mean equal text.
+   */
+  merkleHash(node: ts.Node): string {
+    const known = this.merkleHashes.get(node);
+    if (known) return known;
+    
+    const sourceFile = node.getSourceFile();
+    const hash = createHash('sha256').update(ts.SyntaxKind[node.kind]);
+    let cursor = node.getStart(sourceFile);
+    ts.forEachChild(node, child => {
+      const childStart = child.getStart(sourceFile);
+      hash.update(`|${sourceFile.text.slice(cursor, childStart)}|${this.merkleHash(child)}`);
+      cursor = Math.max(cursor, child.end);
+    });
+    hash.update(`|${sourceFile.text.slice(cursor, node.end)}`);
+    
+    const digest = hash.digest('hex');
+    this.merkleHashes.set(node, digest);
+    return digest;
+  }
+  
+  /**
+   * Value of a subtree, computed once for its text and start column
+   */
+  forSubtree<T>(kind: string, node: ts.Node, compute: () => T): T {
+    const sourceFile = node.getSourceFile();
+    const { character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+    return this.get(`${kind}:${this.merkleHash(node)}@${character}`, compute);
+  }
+  
+  /**
+   * Value under a key, computed when it is not cached. Lookups made while
+   * computing are remembered as what the value was built from.
+   */
+  get<T>(key: string, compute: () => T): T {
+    let entry = this.current.get(key);
+    if (entry) {
+      this.stats.reused++;
+    } else {
+      entry = this.previous.get(key);
+      if (entry) {
+        this.stats.reused++;
+        this.keep(key, entry);
+      } else {
+        this.stats.computed++;
+        this.computing.push([]);
+        try {
+          entry = { value: compute(), uses: this.computing[this.computing.length - 1] };
+        } finally {
+          this.computing.pop();
+        }
+        this.current.set(key, entry);
+      }
+    }
+    
+    this.computing[this.computing.length - 1]?.push(key);
+    return entry.value as T;
+  }
+  
+  /**
+   * Start a new generation: values not used since the last call are dropped
+   * by the next one
+   */
+  nextGeneration(): void {
+    this.previous = this.current;
+    this.current = new Map();
+    this.stats = { reused: 0, computed: 0 };
+  }
+  
+  /**
+   * Cache statistics of the current generation
+   */
+  getStats(): SubtreeStats {
+    return { ...this.stats };
+  }
+  
+  private keep(key: string, entry: CacheEntry): void {
+    this.current.set(key, entry);
+    for (const used of entry.uses) {
+      const kept = this.previous.get(used);
+      if (kept && !this.current.has(used)) this.keep(used, kept);
+    }
+  }
+}
+
+/**
+ * Whether a node is the root of a cached subtree: statements and class
+ * members, the units edits are made in
+ */
+export function isSubtreeRoot(node: ts.Node): boolean {
+  return ts.isStatement(node) || ts.isClassElement(node);
+}
+
+/**
+ * Key of everything computed from a graph alone: node ids, types, labels
+ * and weights and the edges in order. Spans are left out.
+ */
+export function graphKey(graph: LogicalGraph): string {
+  const hash = createHash('sha256');
+  for (const node of graph.nodes.values()) {
+    hash.update(`${node.id}|${node.type}|${node.label}|${node.weight};`);
+  }
+  for (const edge of graph.edges) {
+    hash.update(`${edge.from}>${edge.to}|${edge.type}|${edge.weight};`);
+  }
+  return `graph:${hash.digest('hex')}`;
+}
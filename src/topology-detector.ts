@@ -19,6 +19,17 @@ export interface TopologyFeatures {
   topologicalSignature: string;
 }
 
+/**
+ * Successors by node index in edge order, as compressed rows: node i leads
+ * to targets[offsets[i]] up to targets[offsets[i + 1] - 1]
+ */
+interface IndexedGraph {
+  ids: string[];
+  index: Map<string, number>;
+  offsets: Int32Array;
+  targets: Int32Array;
+}
+
 export class TopologyDetector {
   private visited: Set<string> = new Set();
   private recursionStack: Set<string> = new Set();
@@ -30,14 +41,17 @@ export class TopologyDetector {
   analyzeTopology(graph: LogicalGraph): TopologyFeatures {
     this.reset();
     
-    const hasCycles = this.detectCycles(graph);
-    const hasRecursion = this.detectRecursion(graph);
+    // Successors in edge order, so every walk below sees them as before
+    const adjacencyList = this.buildAdjacencyList(graph);
+    const indexed = this.buildIndexedGraph(graph);
+    const hasCycles = this.detectCycles(graph, adjacencyList);
+    const hasRecursion = this.detectRecursion(graph, indexed);
     const branchingFactor = this.calculateBranchingFactor(graph);
-    const nestingDepth = this.calculateNestingDepth(graph);
-    const loopComplexity = this.calculateLoopComplexity(graph);
+    const nestingDepth = this.calculateNestingDepth(graph, indexed);
+    const loopComplexity = this.calculateLoopComplexity(graph, indexed);
     const isDAG = !hasCycles;
-    const sccCount = this.countStronglyConnectedComponents(graph);
-    const signature = this.generateTopologicalSignature(graph);
+    const sccCount = this.countStronglyConnectedComponents(graph, adjacencyList);
+    const signature = this.generateTopologicalSignature(graph, branchingFactor, nestingDepth, loopComplexity);
     
     return {
       hasCycles,
@@ -54,9 +68,7 @@ export class TopologyDetector {
   /**
    * Detect cycles using DFS
    */
-  private detectCycles(graph: LogicalGraph): boolean {
-    const adjacencyList = this.buildAdjacencyList(graph);
-    
+  private detectCycles(graph: LogicalGraph, adjacencyList: Map<string, string[]>): boolean {
     for (const nodeId of graph.nodes.keys()) {
       if (!this.visited.has(nodeId)) {
         if (this.hasCycleDFS(nodeId, adjacencyList)) {
@@ -94,11 +106,11 @@ export class TopologyDetector {
   /**
    * Detect recursion patterns in function calls
    */
-  private detectRecursion(graph: LogicalGraph): boolean {
+  private detectRecursion(graph: LogicalGraph, indexed: IndexedGraph): boolean {
     // Build function call graph
     for (const node of graph.nodes.values()) {
       if (node.label === 'Function') {
-        const callees = this.findCallees(node.id, graph);
+        const callees = this.findCallees(node.id, graph, indexed);
         this.functionCalls.set(node.id, callees);
       }
     }
@@ -123,25 +135,19 @@ export class TopologyDetector {
   /**
    * Find all functions called by a given function
    */
-  private findCallees(funcId: string, graph: LogicalGraph): string[] {
+  private findCallees(funcId: string, graph: LogicalGraph, indexed: IndexedGraph): string[] {
+    const { ids, offsets, targets } = indexed;
     const callees: string[] = [];
-    const visited = new Set<string>();
-    const queue = [funcId];
-    
-    while (queue.length > 0) {
-      const current = queue.shift()!;
-      if (visited.has(current)) continue;
-      visited.add(current);
-      
-      // Find all outgoing edges
-      for (const edge of graph.edges) {
-        if (edge.from === current) {
-          const targetNode = graph.nodes.get(edge.to);
-          if (targetNode && targetNode.label === 'Call') {
-            // This is a function call
-            callees.push(edge.to);
-          }
-          queue.push(edge.to);
+    const distances = this.distancesFrom(indexed.index.get(funcId)!, indexed);
+    
+    // Outgoing edges of every reachable node
+    for (let current = 0; current < ids.length; current++) {
+      if (distances[current] < 0) continue;
+      for (let k = offsets[current]; k < offsets[current + 1]; k++) {
+        const targetNode = graph.nodes.get(ids[targets[k]]);
+        if (targetNode && targetNode.label === 'Call') {
+          // This is a function call
+          callees.push(targetNode.id);
         }
       }
     }
@@ -201,12 +207,12 @@ export class TopologyDetector {
   /**
    * Calculate maximum nesting depth
    */
-  private calculateNestingDepth(graph: LogicalGraph): number {
+  private calculateNestingDepth(graph: LogicalGraph, indexed: IndexedGraph): number {
     let maxDepth = 0;
     
     for (const node of graph.nodes.values()) {
       if (node.label.includes('Control') || node.label === 'Function') {
-        const depth = this.getNodeDepth(node.id, graph);
+        const depth = this.getNodeDepth(node.id, indexed);
         maxDepth = Math.max(maxDepth, depth);
       }
     }
@@ -217,32 +223,42 @@ export class TopologyDetector {
   /**
    * Get depth of a node in the graph
    */
-  private getNodeDepth(nodeId: string, graph: LogicalGraph): number {
-    const visited = new Set<string>();
-    const queue: Array<{id: string, depth: number}> = [{id: nodeId, depth: 0}];
+  private getNodeDepth(nodeId: string, indexed: IndexedGraph): number {
     let maxDepth = 0;
-    
-    while (queue.length > 0) {
-      const {id, depth} = queue.shift()!;
-      if (visited.has(id)) continue;
-      visited.add(id);
-      
+    for (const depth of this.distancesFrom(indexed.index.get(nodeId)!, indexed)) {
       maxDepth = Math.max(maxDepth, depth);
-      
-      for (const edge of graph.edges) {
-        if (edge.from === id) {
-          queue.push({id: edge.to, depth: depth + 1});
+    }
+    return maxDepth;
+  }
+  
+  /**
+   * Breadth-first distances from a node, -1 where it does not reach
+   */
+  private distancesFrom(start: number, indexed: IndexedGraph): Int32Array {
+    const { offsets, targets } = indexed;
+    const distances = new Int32Array(indexed.ids.length).fill(-1);
+    const queue = new Int32Array(indexed.ids.length);
+    let tail = 0;
+    distances[start] = 0;
+    queue[tail++] = start;
+    
+    for (let head = 0; head < tail; head++) {
+      const current = queue[head];
+      for (let k = offsets[current]; k < offsets[current + 1]; k++) {
+        if (distances[targets[k]] < 0) {
+          distances[targets[k]] = distances[current] + 1;
+          queue[tail++] = targets[k];
         }
       }
     }
     
-    return maxDepth;
+    return distances;
   }
   
   /**
    * Calculate loop complexity (nested loops, etc.)
    */
-  private calculateLoopComplexity(graph: LogicalGraph): number {
+  private calculateLoopComplexity(graph: LogicalGraph, indexed: IndexedGraph): number {
     let complexity = 0;
     const loopNodes: GraphNode[] = [];
     
@@ -260,7 +276,7 @@ export class TopologyDetector {
       complexity += 1; // Base complexity for each loop
       
       // Check if this loop contains other loops
-      const containedLoops = this.findContainedLoops(loop.id, loopNodes, graph);
+      const containedLoops = this.findContainedLoops(loop.id, loopNodes, indexed);
       complexity += containedLoops.length * 2; // Extra complexity for nesting
     }
     
@@ -273,13 +289,13 @@ export class TopologyDetector {
   private findContainedLoops(
     loopId: string, 
     allLoops: GraphNode[], 
-    graph: LogicalGraph
+    indexed: IndexedGraph
   ): GraphNode[] {
     const contained: GraphNode[] = [];
-    const reachable = this.getReachableNodes(loopId, graph);
+    const distances = this.distancesFrom(indexed.index.get(loopId)!, indexed);
     
     for (const loop of allLoops) {
-      if (loop.id !== loopId && reachable.has(loop.id)) {
+      if (loop.id !== loopId && distances[indexed.index.get(loop.id)!] >= 0) {
         contained.push(loop);
       }
     }
@@ -287,32 +303,10 @@ export class TopologyDetector {
     return contained;
   }
   
-  /**
-   * Get all nodes reachable from a given node
-   */
-  private getReachableNodes(startId: string, graph: LogicalGraph): Set<string> {
-    const reachable = new Set<string>();
-    const queue = [startId];
-    
-    while (queue.length > 0) {
-      const current = queue.shift()!;
-      if (reachable.has(current)) continue;
-      reachable.add(current);
-      
-      for (const edge of graph.edges) {
-        if (edge.from === current) {
-          queue.push(edge.to);
-        }
-      }
-    }
-    
-    return reachable;
-  }
-  
   /**
    * Count strongly connected components using Tarjan's algorithm
    */
-  private countStronglyConnectedComponents(graph: LogicalGraph): number {
+  private countStronglyConnectedComponents(graph: LogicalGraph, adjacencyList: Map<string, string[]>): number {
     const index = new Map<string, number>();
     const lowlink = new Map<string, number>();
     const onStack = new Set<string>();
@@ -328,15 +322,12 @@ export class TopologyDetector {
       onStack.add(v);
       
       // Consider successors
-      for (const edge of graph.edges) {
-        if (edge.from === v) {
-          const w = edge.to;
-          if (!index.has(w)) {
-            strongConnect(w);
-            lowlink.set(v, Math.min(lowlink.get(v)!, lowlink.get(w)!));
-          } else if (onStack.has(w)) {
-            lowlink.set(v, Math.min(lowlink.get(v)!, index.get(w)!));
-          }
+      for (const w of adjacencyList.get(v) || []) {
+        if (!index.has(w)) {
+          strongConnect(w);
+          lowlink.set(v, Math.min(lowlink.get(v)!, lowlink.get(w)!));
+        } else if (onStack.has(w)) {
+          lowlink.set(v, Math.min(lowlink.get(v)!, index.get(w)!));
         }
       }
       
@@ -368,13 +359,18 @@ export class TopologyDetector {
   /**
    * Generate a topological signature (hash of the structure)
    */
-  private generateTopologicalSignature(graph: LogicalGraph): string {
+  private generateTopologicalSignature(
+    graph: LogicalGraph,
+    branchingFactor: number,
+    nestingDepth: number,
+    loopComplexity: number
+  ): string {
     const features = [
       graph.nodes.size,
       graph.edges.length,
-      this.calculateBranchingFactor(graph).toFixed(2),
-      this.calculateNestingDepth(graph),
-      this.calculateLoopComplexity(graph)
+      branchingFactor.toFixed(2),
+      nestingDepth,
+      loopComplexity
     ];
     
     return `topo:${features.join(':')}`;
@@ -396,6 +392,35 @@ export class TopologyDetector {
     return adjacencyList;
   }
   
+  /**
+   * Index every node (and edge end) and lay out successors by index
+   */
+  private buildIndexedGraph(graph: LogicalGraph): IndexedGraph {
+    const ids = Array.from(graph.nodes.keys());
+    const index = new Map(ids.map((id, i) => [id, i]));
+    for (const edge of graph.edges) {
+      for (const id of [edge.from, edge.to]) {
+        if (!index.has(id)) index.set(id, ids.push(id) - 1);
+      }
+    }
+    
+    const offsets = new Int32Array(ids.length + 1);
+    for (const edge of graph.edges) {
+      offsets[index.get(edge.from)! + 1]++;
+    }
+    for (let i = 0; i < ids.length; i++) {
+      offsets[i + 1] += offsets[i];
+    }
+    
+    const targets = new Int32Array(graph.edges.length);
+    const next = offsets.slice(0, ids.length);
+    for (const edge of graph.edges) {
+      targets[next[index.get(edge.from)!]++] = index.get(edge.to)!;
+    }
+    
+    return { ids, index, offsets, targets };
+  }
+  
   /**
    * Reset detector state
    */
@@ -0,0 +1,103 @@
+/**
+ * 🫥 Type Erasure - TypeScript seen as the JavaScript it compiles to
+ *
+ * Type-only syntax (annotations, interfaces, type aliases, generics,
+ * overloads, `declare`, `implements`, type-only imports) disappears, and the
+ * compile-time type operations (`as`, `<T>x`, `x!`, `satisfies`, `f<T>`) are
+ * transparent: the graph sees the expression they wrap.
+ */
+
+import * as ts from 'typescript';
+
+// Modifiers that do not survive compilation
+const TYPE_ONLY_MODIFIERS = new Set<ts.SyntaxKind>([
+  ts.SyntaxKind.PublicKeyword,
+  ts.SyntaxKind.PrivateKeyword,
+  ts.SyntaxKind.ProtectedKeyword,
+  ts.SyntaxKind.ReadonlyKeyword,
+  ts.SyntaxKind.AbstractKeyword,
+  ts.SyntaxKind.OverrideKeyword,
+  ts.SyntaxKind.DeclareKeyword
+]);
+
+/**
+ * Whether a node is removed by compilation
+ */
+export function isTypeOnly(node: ts.Node): boolean {
+  if (ts.isExpressionWithTypeArguments(node)) {
+    return false;  // `extends Base<T>` keeps Base
+  }
+  if (ts.isTypeNode(node) || ts.isTypeParameterDeclaration(node) ||
+      ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node) ||
+      ts.isIndexSignatureDeclaration(node)) {
+    return true;
+  }
+  if (ts.isModifier(node)) {
+    return TYPE_ONLY_MODIFIERS.has(node.kind);
+  }
+  if (node.kind === ts.SyntaxKind.QuestionToken || node.kind === ts.SyntaxKind.ExclamationToken) {
+    return !ts.isConditionalExpression(node.parent);  // Optional and definite-assignment marks
+  }
+  if (ts.isHeritageClause(node)) {
+    return node.token === ts.SyntaxKind.ImplementsKeyword;
+  }
+
+  // Declarations without runtime code: `declare`, abstract members, overloads
+  const modifiers = ts.canHaveModifiers(node) ? ts.getModifiers(node) ?? [] : [];
+  if (modifiers.some(modifier => modifier.kind === ts.SyntaxKind.DeclareKeyword) ||
+      (ts.isClassElement(node) && modifiers.some(modifier => modifier.kind === ts.SyntaxKind.AbstractKeyword))) {
+    return true;
+  }
+  if ((ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node) || ts.isConstructorDeclaration(node)) && !node.body) {
+    return true;
+  }
+  if (ts.isParameter(node) && ts.isIdentifier(node.name) && node.name.text === 'this') {
+    return true;
+  }
+  if (ts.isPropertyDeclaration(node) && node.type && !node.initializer) {
+    return true;  // `x: number;` only declares a type (without useDefineForClassFields)
+  }
+
+  // import type / export type, and type-only specifiers
+  if (ts.isImportDeclaration(node)) return node.importClause?.isTypeOnly ?? false;
+  if (ts.isImportEqualsDeclaration(node) || ts.isExportDeclaration(node) ||
+      ts.isImportSpecifier(node) || ts.isExportSpecifier(node)) {
+    return node.isTypeOnly;
+  }
+
+  return false;
+}
+
+/**
+ * Whether a node is a compile-time type operation around an expression
+ */
+export function isTypeAssertion(node: ts.Node): node is ts.Node & { expression: ts.Expression } {
+  return ts.isAsExpression(node) ||
+         ts.isTypeAssertionExpression(node) ||
+         ts.isNonNullExpression(node) ||
+         ts.isSatisfiesExpression(node) ||
+         (ts.isExpressionWithTypeArguments(node) && !ts.isHeritageClause(node.parent));
+}
+
+/**
+ * The expression under type assertions, including the parentheses that
+ * only exist to hold one: `(x as T).y` compiles to `x.y`
+ */
+export function skipTypeAssertions(node: ts.Node): ts.Node {
+  while (isTypeAssertion(node) || (ts.isParenthesizedExpression(node) && isTypeAssertion(node.expression))) {
+    node = node.expression;
+  }
+  return node;
+}
+
+/**
+ * Parent of a node as the compiled JavaScript sees it, with the child on
+ * that parent's side
+ */
+export function runtimeParent(node: ts.Node): { parent: ts.Node; child: ts.Node } {
+  let child = node;
+  while (child.parent && skipTypeAssertions(child.parent) === node) {
+    child = child.parent;
+  }
+  return { parent: child.parent, child };
+}
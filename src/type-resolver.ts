@@ -0,0 +1,231 @@
+/**
+ * 🔭 Type Resolver - What code calls and computes, according to the TypeChecker
+ *
+ * A bare syntax tree cannot tell `Math.max(a, b)` from `fs.unlinkSync(a)`.
+ * With a ts.Program, callees resolve to their declarations and expressions
+ * to a coarse type category, and both can be folded into graph labels.
+ */
+
+import * as ts from 'typescript';
+import { dirname, isAbsolute, relative, resolve } from 'path';
+
+export type TypeCategory =
+  | 'number' | 'bigint' | 'string' | 'boolean' | 'symbol'
+  | 'null' | 'undefined' | 'void' | 'never'
+  | 'array' | 'function' | 'promise' | 'object'
+  | 'generic' | 'union' | 'any' | 'unknown';
+
+export type CalleePurity = 'pure' | 'impure' | 'unknown';
+
+export interface ResolvedCallee {
+  identity: string;   // Declaration identity, e.g. 'Math.max' or '"fs".unlinkSync'
+  purity: CalleePurity;
+}
+
+/**
+ * Identity of callees declared in the program's own sources. Local helpers
+ * are already part of the graph, and their names must not affect the hash.
+ */
+export const LOCAL_CALLEE = 'local';
+
+// Modules whose every export touches the outside world
+const IMPURE_MODULES = [
+  'fs', 'fs/promises', 'child_process', 'cluster', 'dgram', 'dns',
+  'http', 'https', 'http2', 'net', 'readline', 'tls', 'worker_threads'
+];
+
+const IMPURE_CALLEES = new Set([
+  'Math.random', 'DateConstructor.now', 'fetch',
+  'setTimeout', 'setInterval', 'setImmediate', 'queueMicrotask',
+  'Crypto.getRandomValues', 'Crypto.randomUUID',
+  'Array.push', 'Array.pop', 'Array.shift', 'Array.unshift', 'Array.splice',
+  'Array.sort', 'Array.reverse', 'Array.fill', 'Array.copyWithin',
+  'Map.set', 'Map.delete', 'Map.clear',
+  'Set.add', 'Set.delete', 'Set.clear',
+  'WeakMap.set', 'WeakMap.delete', 'WeakSet.add', 'WeakSet.delete',
+  'ObjectConstructor.assign', 'ObjectConstructor.defineProperty'
+]);
+
+const IMPURE_PREFIXES = ['Console.', 'global.NodeJS.Process.', 'NodeJS.Process.'];
+
+const PURE_PREFIXES = [
+  'Math.', 'JSON.', 'String.', 'StringConstructor.', 'Number.', 'NumberConstructor.',
+  'Array.', 'ReadonlyArray.', 'ArrayConstructor.', 'ObjectConstructor.',
+  'BigInt.', 'BigIntConstructor.', 'Map.', 'ReadonlyMap.', 'Set.', 'ReadonlySet.'
+];
+
+/**
+ * Known side-effect profile of a callee identity
+ */
+export function calleePurity(identity: string): CalleePurity {
+  if (IMPURE_CALLEES.has(identity)) return 'impure';
+  if (IMPURE_PREFIXES.some(prefix => identity.startsWith(prefix))) return 'impure';
+  if (IMPURE_MODULES.some(name => identity.startsWith(`"${name}".`) || identity.startsWith(`"node:${name}".`))) {
+    return 'impure';
+  }
+  if (PURE_PREFIXES.some(prefix => identity.startsWith(prefix))) return 'pure';
+  return 'unknown';
+}
+
+export class TypeResolver {
+  private readonly checker: ts.TypeChecker;
+  
+  constructor(private readonly program: ts.Program) {
+    this.checker = program.getTypeChecker();
+  }
+  
+  /**
+   * Resolve the declaration a call or `new` expression invokes.
+   * Returns undefined when the checker cannot find one (e.g. `any` receivers).
+   */
+  resolveCallee(call: ts.CallExpression | ts.NewExpression): ResolvedCallee | undefined {
+    const target = ts.isPropertyAccessExpression(call.expression)
+      ? call.expression.name
+      : call.expression;
+    
+    let symbol = this.checker.getSymbolAtLocation(target);
+    if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+      symbol = this.checker.getAliasedSymbol(symbol);
+    }
+    if (!symbol) return undefined;
+    
+    const declaration = symbol.declarations?.[0];
+    if (declaration && this.isLocal(declaration.getSourceFile())) {
+      return { identity: LOCAL_CALLEE, purity: 'unknown' };
+    }
+    
+    const identity = this.normalizeName(this.checker.getFullyQualifiedName(symbol));
+    return { identity, purity: calleePurity(identity) };
+  }
+  
+  /**
+   * Coarse category of an expression's type
+   */
+  typeCategory(node: ts.Node): TypeCategory {
+    return this.categorize(this.checker.getTypeAtLocation(node));
+  }
+  
+  private categorize(type: ts.Type): TypeCategory {
+    const flags = type.flags;
+    
+    if (flags & ts.TypeFlags.Any) return 'any';
+    if (flags & ts.TypeFlags.Unknown) return 'unknown';
+    if (flags & ts.TypeFlags.Never) return 'never';
+    if (flags & ts.TypeFlags.Void) return 'void';
+    if (flags & ts.TypeFlags.Undefined) return 'undefined';
+    if (flags & ts.TypeFlags.Null) return 'null';
+    if (flags & ts.TypeFlags.NumberLike) return 'number';
+    if (flags & ts.TypeFlags.BigIntLike) return 'bigint';
+    if (flags & ts.TypeFlags.StringLike) return 'string';
+    if (flags & ts.TypeFlags.BooleanLike) return 'boolean';
+    if (flags & ts.TypeFlags.ESSymbolLike) return 'symbol';
+    if (flags & ts.TypeFlags.TypeParameter) return 'generic';
+    
+    if (type.isUnion()) {
+      // `true | false` and `1 | 2` are still one category
+      const categories = new Set(type.types.map(member => this.categorize(member)));
+      return categories.size === 1 ? [...categories][0] : 'union';
+    }
+    
+    if (this.checker.isArrayType(type) || this.checker.isTupleType(type)) return 'array';
+    if (type.getCallSignatures().length > 0) return 'function';
+    if (type.getSymbol()?.getName() === 'Promise') return 'promise';
+    return 'object';
+  }
+  
+  private isLocal(sourceFile: ts.SourceFile): boolean {
+    return !sourceFile.isDeclarationFile &&
+           !this.program.isSourceFileFromExternalLibrary(sourceFile) &&
+           !this.program.isSourceFileDefaultLibrary(sourceFile);
+  }
+  
+  /**
+   * Fully qualified names of file modules embed an absolute path;
+   * make it machine-independent
+   */
+  private normalizeName(name: string): string {
+    const match = /^"([^"]+)"(.*)$/.exec(name);
+    if (!match || !isAbsolute(match[1])) return name;
+    
+    const [, modulePath, rest] = match;
+    const packageStart = modulePath.lastIndexOf('/node_modules/');
+    const moduleName = packageStart >= 0
+      ? modulePath.slice(packageStart + '/node_modules/'.length).replace(/^@types\//, '')
+      : relative(this.program.getCurrentDirectory(), modulePath).split('\\').join('/');
+    
+    return `"${moduleName}"${rest}`;
+  }
+}
+
+/**
+ * Compiler options used to type-check code that comes without a program
+ */
+export const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.CommonJS,
+  moduleResolution: ts.ModuleResolutionKind.Node10,
+  strict: true,
+  esModuleInterop: true,
+  skipLibCheck: true,
+  noEmit: true
+};
+
+/**
+ * Build a ts.Program from a tsconfig.json path
+ */
+export function createProgramFromConfig(tsconfigPath: string): ts.Program {
+  const configPath = resolve(tsconfigPath);
+  const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+  if (error) {
+    throw new Error(`Cannot read ${tsconfigPath}: ${ts.flattenDiagnosticMessageText(error.messageText, '\n')}`);
+  }
+  
+  const parsed = ts.parseJsonConfigFileContent(config, ts.sys, dirname(configPath), undefined, configPath);
+  if (parsed.errors.length > 0) {
+    throw new Error(`Invalid ${tsconfigPath}: ${ts.flattenDiagnosticMessageText(parsed.errors[0].messageText, '\n')}`);
+  }
+  
+  return ts.createProgram({ rootNames: parsed.fileNames, options: parsed.options, projectReferences: parsed.projectReferences });
+}
+
+/**
+ * Type-checks source text that is not (or no longer) part of a program.
+ * Every snippet becomes a one-file program; lib and @types files are
+ * reused from the previous snippet.
+ */
+export class SnippetProgram {
+  private readonly options: ts.CompilerOptions;
+  private previous?: ts.Program;
+  private readonly libraryFiles = new Map<string, ts.SourceFile | undefined>();
+  
+  constructor(options: ts.CompilerOptions = DEFAULT_COMPILER_OPTIONS) {
+    // Snippets may be JavaScript or JSX whatever the project allows
+    this.options = { ...options, allowJs: true, jsx: options.jsx ?? ts.JsxEmit.Preserve };
+  }
+  
+  check(code: string, fileName: string, scriptKind?: ts.ScriptKind): ts.Program {
+    const snippetPath = resolve(fileName);
+    const host = ts.createCompilerHost(this.options, true);
+    const { getSourceFile, fileExists, readFile } = host;
+    
+    host.getSourceFile = (path, languageVersion, ...rest) => {
+      if (resolve(path) === snippetPath) {
+        return ts.createSourceFile(path, code, languageVersion, true, scriptKind);
+      }
+      if (!this.libraryFiles.has(path)) {
+        this.libraryFiles.set(path, getSourceFile.call(host, path, languageVersion, ...rest));
+      }
+      return this.libraryFiles.get(path);
+    };
+    host.fileExists = path => resolve(path) === snippetPath || fileExists.call(host, path);
+    host.readFile = path => resolve(path) === snippetPath ? code : readFile.call(host, path);
+    
+    this.previous = ts.createProgram({
+      rootNames: [snippetPath],
+      options: this.options,
+      host,
+      oldProgram: this.previous
+    });
+    return this.previous;
+  }
+}
@@ -2,17 +2,30 @@
  * Type definitions for Protein Hash
  */
 
+import { OperationCategory } from './operation-classifier';
+import type { WeightProfile } from './weight-profiles';
+
 export type HashAlgorithm = 'sha256' | 'sha512' | 'blake3';
 
+export type FingerprintStrategy = 'spectral' | 'wl';
+
 export type NodeType = 'operation' | 'data' | 'control' | 'pure';
 
-export type EdgeType = 'dataflow' | 'control' | 'dependency';
+export type EdgeType = 'structure' | 'dataflow' | 'control' | 'dependency';
 
 export interface ProteinHashConfig {
   eigenvalueCount?: number;
   quantizationLevels?: number;
   algorithm?: HashAlgorithm;
   includeMetadata?: boolean;
+  includeGraph?: boolean;             // Return the logical graph with the result
+  canonicalize?: OperationCategory[]; // Operator classes whose operand order/nesting is normalized
+  typeAware?: boolean;                // Resolve callees and expression types through the TypeChecker
+  fingerprint?: FingerprintStrategy;  // What the phash digest is computed from
+  wlIterations?: number;              // Weisfeiler-Lehman refinement rounds
+  strict?: boolean;                   // Throw ProteinHashParseError on syntax errors
+  eraseTypes?: boolean;               // Hash the JavaScript the code compiles to
+  weightProfile?: string | WeightProfile;  // Node weighting: a built-in profile name or a custom profile
 }
 
 export interface SemanticSignature {
@@ -0,0 +1,135 @@
+/**
+ * ⚖️ Weight Profiles - Tune what counts as "different"
+ *
+ * Node weights scale their edges in the Laplacian, so they decide which
+ * changes move the spectrum most. A profile gives every graph node its
+ * weight. Built-in profiles are selected by name; custom profiles are
+ * passed as objects. Profiles other than the default are named in the
+ * phash prefix (`w<name>`).
+ */
+
+import * as ts from 'typescript';
+import type { NodeType } from './types';
+import type { OperationSignature } from './operation-classifier';
+
+export interface WeightedNode {
+  label: string;
+  type: NodeType;
+  syntaxKind: ts.SyntaxKind;
+  operation?: OperationSignature;   // What the OperationClassifier recognized, if anything
+}
+
+export interface WeightProfile {
+  name: string;                          // Lowercase letters, digits and '-'; goes into the phash prefix
+  nodeWeight(node: WeightedNode): number;  // Positive and finite
+}
+
+export const DEFAULT_WEIGHT_PROFILE = 'default';
+
+const PROFILE_NAME_PATTERN = /^[a-z][a-z0-9-]*$/;
+
+const CALLS = new Set<ts.SyntaxKind>([
+  ts.SyntaxKind.CallExpression,
+  ts.SyntaxKind.NewExpression,
+  ts.SyntaxKind.TaggedTemplateExpression
+]);
+
+/**
+ * Weight by label: calls and control flow stand out, literals fade
+ */
+function labelWeight(label: string): number {
+  // Different operations have VERY different weights for better distinction
+  if (label.includes('BinaryOp:+')) return 1.0;
+  if (label.includes('BinaryOp:-')) return 2.0;  // Much different from +
+  if (label.includes('BinaryOp:*')) return 3.0;  // Much different from +/-
+  if (label.includes('BinaryOp:/')) return 4.0;  // Much different from *
+  if (label.includes('BinaryOp:%')) return 5.0;
+  if (label.includes('BinaryOp:**')) return 6.0;
+  if (label.includes('Control')) return 10.0;
+  if (label.includes('Call')) return 15.0;
+  if (label.includes('Function')) return 0.5;
+  if (label.includes('Return')) return 0.8;
+  if (label.includes('Literal')) return 0.3;
+  return 1.0;
+}
+
+export const WEIGHT_PROFILES: Readonly<Record<string, WeightProfile>> = {
+  // The weights phashes have always used
+  default: {
+    name: DEFAULT_WEIGHT_PROFILE,
+    nodeWeight: node => labelWeight(node.label)
+  },
+  
+  // Shape only: every node weighs the same, edge types still differ
+  structural: {
+    name: 'structural',
+    nodeWeight: () => 1
+  },
+  
+  // Every operation the classifier knows (a + b vs a * b, ++, await, ...) gets its own weight
+  'operation-sensitive': {
+    name: 'operation-sensitive',
+    nodeWeight: node => node.operation ? 2 * node.operation.weight : labelWeight(node.label)
+  },
+  
+  // Glue code: what gets called dominates, the arithmetic around it barely registers
+  'call-heavy': {
+    name: 'call-heavy',
+    nodeWeight: node => {
+      if (CALLS.has(node.syntaxKind)) return 40;
+      if (node.syntaxKind === ts.SyntaxKind.PropertyAccessExpression) return 3;
+      return Math.min(labelWeight(node.label), 1);
+    }
+  }
+};
+
+/**
+ * Profile for a name or a custom profile object
+ */
+export function resolveWeightProfile(profile: string | WeightProfile = DEFAULT_WEIGHT_PROFILE): WeightProfile {
+  if (typeof profile === 'string') {
+    const builtin = builtinProfile(profile);
+    if (!builtin) {
+      throw new Error(`Unknown weight profile ${profile}; expected one of ${Object.keys(WEIGHT_PROFILES).join(', ')}`);
+    }
+    return builtin;
+  }
+  
+  if (!PROFILE_NAME_PATTERN.test(profile.name)) {
+    throw new Error(`Weight profile name must match ${PROFILE_NAME_PATTERN}, got ${profile.name}`);
+  }
+  if (isCustomWeightProfile(profile) && builtinProfile(profile.name)) {
+    throw new Error(`Custom weight profile cannot reuse the built-in name ${profile.name}`);
+  }
+  if (typeof profile.nodeWeight !== 'function') {
+    throw new Error(`Weight profile ${profile.name} has no nodeWeight function`);
+  }
+  return profile;
+}
+
+/**
+ * Whether a profile is not one of the built-ins, so its name alone does not
+ * say how it weighs nodes
+ */
+export function isCustomWeightProfile(profile: string | WeightProfile | undefined): profile is WeightProfile {
+  return typeof profile === 'object' && builtinProfile(profile.name) !== profile;
+}
+
+/**
+ * Whether a name is one of the built-in profiles, so a phash prefix naming
+ * it can be reproduced
+ */
+export function isBuiltinWeightProfile(name: string): boolean {
+  return builtinProfile(name) !== undefined;
+}
+
+/**
+ * Whether a name can appear in a phash prefix
+ */
+export function isWeightProfileName(name: string): boolean {
+  return PROFILE_NAME_PATTERN.test(name);
+}
+
+function builtinProfile(name: string): WeightProfile | undefined {
+  return Object.prototype.hasOwnProperty.call(WEIGHT_PROFILES, name) ? WEIGHT_PROFILES[name] : undefined;
+}
@@ -0,0 +1,97 @@
+/**
+ * 🎨 Weisfeiler-Lehman Hash - Color refinement over the logical graph
+ *
+ * Spectra collide for cospectral but non-isomorphic graphs. WL subtree
+ * hashing instead recolors every node with a digest of its own color and
+ * the multiset of its neighbors' colors (per edge type and direction), and
+ * fingerprints the histogram of all colors seen over all rounds.
+ */
+
+import { createHash } from 'crypto';
+import { LogicalGraph } from './protein-hasher';
+
+export const DEFAULT_WL_ITERATIONS = 3;
+
+/**
+ * Node colors per refinement round. Round 0 holds the initial colors
+ * (node labels); round r describes each node's r-hop neighborhood.
+ */
+export function wlColorRounds(
+  graph: LogicalGraph,
+  iterations: number = DEFAULT_WL_ITERATIONS
+): Array<Map<string, string>> {
+  // Typed, directed neighborhoods: '>' for outgoing edges, '<' for incoming
+  const neighbors = new Map<string, Array<[string, string]>>();
+  for (const id of graph.nodes.keys()) {
+    neighbors.set(id, []);
+  }
+  for (const edge of graph.edges) {
+    neighbors.get(edge.from)?.push([`>${edge.type}`, edge.to]);
+    neighbors.get(edge.to)?.push([`<${edge.type}`, edge.from]);
+  }
+  
+  // Nodes with the same label or neighborhood share one digest
+  const digests = new Map<string, string>();
+  const color = (value: string): string => {
+    let digest = digests.get(value);
+    if (digest === undefined) {
+      digest = createHash('sha256').update(value).digest('hex').substring(0, 16);
+      digests.set(value, digest);
+    }
+    return digest;
+  };
+  
+  let colors = new Map<string, string>();
+  for (const [id, node] of graph.nodes) {
+    colors.set(id, color(node.label));
+  }
+  const rounds = [colors];
+  
+  for (let round = 0; round < iterations; round++) {
+    const previous = colors;
+    colors = new Map();
+    for (const [id, adjacent] of neighbors) {
+      const signature = adjacent
+        .filter(([, other]) => previous.has(other))
+        .map(([direction, other]) => `${direction}:${previous.get(other)}`)
+        .sort();
+      colors.set(id, color(`${previous.get(id)}|${signature.join(',')}`));
+    }
+    rounds.push(colors);
+  }
+  
+  return rounds;
+}
+
+/**
+ * Histogram of colors over all rounds - the WL subtree kernel feature vector
+ */
+export function wlFeatures(
+  graph: LogicalGraph,
+  iterations: number = DEFAULT_WL_ITERATIONS
+): Map<string, number> {
+  const features = new Map<string, number>();
+  wlColorRounds(graph, iterations).forEach((colors, round) => {
+    for (const value of colors.values()) {
+      const key = `${round}:${value}`;
+      features.set(key, (features.get(key) || 0) + 1);
+    }
+  });
+  return features;
+}
+
+/**
+ * WL subtree hash of a logical graph (16 hex chars).
+ * Isomorphic graphs always hash equal; node ids and order do not matter.
+ */
+export function wlHash(
+  graph: LogicalGraph,
+  iterations: number = DEFAULT_WL_ITERATIONS,
+  algorithm: string = 'sha256'
+): string {
+  const histogram = Array.from(wlFeatures(graph, iterations), ([key, count]) => `${key}=${count}`)
+    .sort()
+    .join('\n');
+  
+  return createHash(algorithm).update(histogram).digest('hex').substring(0, 16);
+}
@@ -0,0 +1,66 @@
+/**
+ * Tests for parallel batch hashing
+ */
+
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { hashMany, BatchResult, ProteinHasher, ProteinHashParseError } from '../src';
+
+describe('hashMany', () => {
+  it('should match serial hashing, in input order, with per-item errors', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'phash-batch-'));
+    try {
+      const file = join(dir, 'max.ts');
+      writeFileSync(file, 'export function max(a, b) { return a > b ? a : b; }');
+      
+      const codes = [
+        'function add(a, b) { return a + b; }',
+        'const double = (x) => x * 2;',
+        'for (let i = 0; i < 10; i++) { console.log(i); }'
+      ];
+      const streamed: BatchResult[] = [];
+      const results = await hashMany(
+        [...codes, { path: file }, { path: join(dir, 'missing.ts') }],
+        { includeMetadata: false, concurrency: 2, onResult: result => streamed.push(result) }
+      );
+      
+      const hasher = new ProteinHasher({ includeMetadata: false });
+      expect(results.map(r => r.index)).toEqual([0, 1, 2, 3, 4]);
+      codes.forEach((code, i) => expect(results[i].result).toEqual(hasher.computeHash(code)));
+      expect(results[3].result!.phash)
+        .toBe(hasher.computeHash('export function max(a, b) { return a > b ? a : b; }').phash);
+      
+      expect(results[4].result).toBeUndefined();
+      expect(results[4].error!.message).toMatch(/ENOENT/);
+      expect(streamed.map(r => r.index).sort()).toEqual([0, 1, 2, 3, 4]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  }, 60000);
+  
+  it('should reject with the abort reason when cancelled', async () => {
+    const controller = new AbortController();
+    const batch = hashMany(['x => x + 1', 'x => x + 2', 'x => x + 3'], {
+      concurrency: 1,
+      signal: controller.signal,
+      onResult: () => controller.abort(new Error('stop'))
+    });
+    await expect(batch).rejects.toThrow('stop');
+    
+    await expect(hashMany(['x => x'], { signal: AbortSignal.abort(new Error('early')) })).rejects.toThrow('early');
+  }, 60000);
+  
+  it('should reject invalid options', async () => {
+    await expect(hashMany(['x => x'], { concurrency: 0 })).rejects.toThrow(/concurrency/);
+    await expect(hashMany(['x => x'], { eigenvalueCount: -1 })).rejects.toThrow(/eigenvalueCount/);
+    await expect(hashMany(['x => x'], { weightProfile: { name: 'mine', nodeWeight: () => 1 } })).rejects.toThrow(/weight profile/);
+  });
+  
+  it('should keep the error class of failed items', async () => {
+    const [{ error }] = await hashMany(['function (a { return a; }'], { strict: true, concurrency: 1 });
+    
+    expect(error).toBeInstanceOf(ProteinHashParseError);
+    expect((error as ProteinHashParseError).diagnostics.length).toBeGreaterThan(0);
+  }, 60000);
+});
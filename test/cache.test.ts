@@ -0,0 +1,96 @@
+/**
+ * Tests for the on-disk result cache
+ */
+
+import { mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ResultCache, ProteinHasher, ALGORITHM_VERSION } from '../src';
+
+describe('ResultCache', () => {
+  let directory: string;
+  
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'phash-cache-'));
+  });
+  
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+  
+  it('should serve unchanged sources from disk across instances', () => {
+    const code = 'function add(a, b) { return a + b; }';
+    const first = new ResultCache({ directory, includeMetadata: false });
+    const computed = first.computeHash(code);
+    expect(computed).toEqual(new ProteinHasher({ includeMetadata: false }).computeHash(code));
+    expect(first.getStats()).toMatchObject({ entries: 1, hits: 0, misses: 1 });
+    
+    const second = new ResultCache({ directory, includeMetadata: false });
+    expect(second.computeHash(code)).toEqual(computed);
+    expect(second.getStats()).toMatchObject({ entries: 1, hits: 1, misses: 0 });
+  });
+  
+  it('should key entries by effective config', () => {
+    const code = 'const double = (x) => x * 2;';
+    const cache = new ResultCache({ directory });
+    const other = new ResultCache({ directory, eigenvalueCount: 8 });
+    expect(other.keyOf(code)).not.toBe(cache.keyOf(code));
+    expect(new ResultCache({ directory, eigenvalueCount: 5 }).keyOf(code)).toBe(cache.keyOf(code));
+    
+    cache.computeHash(code);
+    other.computeHash(code);
+    expect(other.getStats().misses).toBe(1);
+  });
+  
+  it('should evict least recently used entries beyond the size limit', () => {
+    // Same shape, so every entry has about the same size
+    const [a, b, c] = ['x => x + 1', 'x => x + 2', 'x => x + 3'];
+    const probe = new ResultCache({ directory });
+    probe.computeHash(a);
+    const entryBytes = probe.getStats().bytes;
+    probe.clear();
+    
+    const cache = new ResultCache({ directory, maxBytes: Math.floor(entryBytes * 2.5) });
+    cache.computeHash(a);
+    cache.computeHash(b);
+    cache.computeHash(a);  // b is now least recently used
+    cache.computeHash(c);
+    
+    expect(cache.getStats()).toMatchObject({ entries: 2, evictions: 1 });
+    cache.computeHash(a);
+    expect(cache.getStats().hits).toBe(2);
+    expect(readdirSync(directory).filter(name => name.endsWith('.phash'))).toHaveLength(2);
+  });
+  
+  it('should detect and remove corrupt entries', () => {
+    const cache = new ResultCache({ directory });
+    cache.computeHash('function add(a, b) { return a + b; }');
+    cache.computeHash('for (let i = 0; i < 10; i++) { console.log(i); }');
+    cache.computeHash('const double = (x) => x * 2;');
+    
+    const key = cache.keyOf('for (let i = 0; i < 10; i++) { console.log(i); }');
+    const path = join(directory, `${key}.phash`);
+    writeFileSync(path, readFileSync(path, 'utf8').replace('"nodes":', '"nodes":1'));
+    
+    expect(cache.verify()).toEqual({ checked: 3, removed: [key] });
+    expect(cache.getStats().entries).toBe(2);
+    expect(cache.verify()).toEqual({ checked: 2, removed: [] });
+  });
+  
+  it('should drop all entries when the algorithm version changes', () => {
+    new ResultCache({ directory }).computeHash('const one = () => 1;');
+    const manifest = join(directory, 'manifest.json');
+    expect(JSON.parse(readFileSync(manifest, 'utf8')).algorithmVersion).toBe(ALGORITHM_VERSION);
+    writeFileSync(manifest, readFileSync(manifest, 'utf8').replace(/"algorithmVersion":\d+/, `"algorithmVersion":${ALGORITHM_VERSION - 1}`));
+    
+    const cache = new ResultCache({ directory });
+    expect(cache.getStats().entries).toBe(0);
+    expect(readdirSync(directory)).toEqual(['manifest.json']);
+  });
+  
+  it('should reject type-aware hashers and invalid limits', () => {
+    expect(() => new ResultCache({ directory, typeAware: true })).toThrow(/type-aware/);
+    expect(() => new ResultCache({ directory, maxBytes: 0 })).toThrow(/maxBytes/);
+    expect(() => new ResultCache({ directory, weightProfile: { name: 'mine', nodeWeight: () => 1 } })).toThrow(/weight profiles/);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Tests for explainDifference
+ */
+
+import { ProteinHasher, explainDifference, alignGraphs } from '../src';
+
+describe('explainDifference', () => {
+  const lines = (...body: string[]) => ['function total(items) {', '  let sum = 0;', ...body, '  return sum;', '}'].join('\n');
+  const base = lines('  for (const item of items) {', '    sum += item.price;', '  }');
+  
+  it('should report nothing for equivalent code', () => {
+    const renamed = base.replace(/sum/g, 'acc').replace(/item\b/g, 'entry');
+    const explanation = explainDifference(base, renamed);
+    
+    expect(explanation.identical).toBe(true);
+    expect(explanation.changes).toEqual([]);
+    expect(explanation.similarity.score).toBeCloseTo(1);
+  });
+  
+  it('should point at added code', () => {
+    const explanation = explainDifference(base, lines('  for (const item of items) {', '    sum += item.price;', '  }', '  log(sum);'));
+    
+    expect(explanation.identical).toBe(false);
+    expect(explanation.changes.map(c => c.change)).toEqual(['added', 'added']);
+    expect(explanation.changes.map(c => c.after?.label)).toContain('Call');
+    expect(explanation.changedLines).toEqual({ before: [], after: [6] });
+  });
+  
+  it('should report replaced operators as relabeled with both spans', () => {
+    const explanation = explainDifference(base, lines('  for (const item of items) {', '    sum -= item.price;', '  }'));
+    
+    expect(explanation.changes).toHaveLength(1);
+    const [change] = explanation.changes;
+    expect(change.change).toBe('relabeled');
+    expect(change.before?.span?.start).toEqual({ line: 4, column: 9 });
+    expect(change.after?.label).toBe('MinusEqualsToken');
+  });
+  
+  it('should break the score down into its components', () => {
+    const other = 'function f(x) { if (x > 0) { return f(x - 1); } return 0; }';
+    const { similarity } = explainDifference(base, other);
+    const hasher = new ProteinHasher();
+    
+    expect(similarity.score).toBeCloseTo(hasher.compareSimilarity(hasher.computeHash(base), hasher.computeHash(other)));
+    expect(Object.keys(similarity).sort()).toEqual(['consciousness', 'patterns', 'score', 'spectral', 'strategy', 'topology']);
+    
+    const { spectral, topology, patterns, consciousness } = similarity;
+    const components = [spectral, topology!, patterns!, consciousness!];
+    expect(components.reduce((sum, c) => sum + c.contribution, 0)).toBeCloseTo(similarity.score);
+    expect(components.reduce((sum, c) => sum + c.weight, 0)).toBeCloseTo(1);
+    expect(topology!.weight).toBeGreaterThan(0);
+    expect(patterns!.weight).toBeGreaterThan(0);
+    expect(topology!.similarity).toBeLessThan(1);
+  });
+  
+  it('should parse JSX with source options', () => {
+    const a = 'const View = () => <div>{items.map(i => <Row key={i} />)}</div>;';
+    const b = 'const View = () => <div>{items.map(i => <Row key={i} />)}{footer}</div>;';
+    const explanation = explainDifference(a, b, {}, { fileName: 'view.tsx' });
+    
+    expect(explanation.changes.length).toBeGreaterThan(0);
+    expect(explanation.changedLines).toEqual({ before: [], after: [1] });
+    expect(() => explainDifference(a, b, { strict: true })).toThrow();
+  });
+});
+
+describe('alignGraphs', () => {
+  it('should match every node of isomorphic graphs', () => {
+    const hasher = new ProteinHasher();
+    const a = hasher.buildGraph('const f = (a, b) => a * b + 1;');
+    const b = hasher.buildGraph('const g = (x, y) => 1 + x * y;');
+    
+    expect(alignGraphs(a, b).size).toBe(a.nodes.size);
+  });
+});
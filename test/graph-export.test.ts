@@ -0,0 +1,81 @@
+/**
+ * Tests for graph export
+ */
+
+import {
+  ProteinHasher,
+  LogicalGraph,
+  createHasher,
+  toDot,
+  toGraphML,
+  toMermaid,
+  NODE_COLORS,
+  serializeResult,
+  deserializeResult
+} from '../src';
+
+describe('includeGraph', () => {
+  const code = 'function clamp(x) { if (x > 10) { return 10; } return x; }';
+  
+  it('should return the logical graph with the result', () => {
+    const result = createHasher({ includeGraph: true }).computeHash(code);
+    
+    expect(result.graph?.nodes.size).toBe(result.nodes);
+    expect(result.graph?.edges).toHaveLength(result.edges);
+    expect(new ProteinHasher().computeHash(code).graph).toBeUndefined();
+  });
+  
+  it('should not change the phash', () => {
+    expect(createHasher({ includeGraph: true }).computeHash(code).phash)
+      .toBe(createHasher().computeHash(code).phash);
+  });
+  
+  it('should survive serialization', () => {
+    const result = createHasher({ includeGraph: true }).computeHash(code);
+    expect(deserializeResult(serializeResult(result))).toEqual(result);
+  });
+});
+
+describe('graph exporters', () => {
+  const graph: LogicalGraph = {
+    nodes: new Map([
+      ['n0', { id: 'n0', type: 'pure', label: 'Function', weight: 0.5 }],
+      ['n1', { id: 'n1', type: 'control', label: 'Control:IfStatement', weight: 10, span: { start: { line: 2, column: 3 }, end: { line: 4, column: 4 } } }],
+      ['n2', { id: 'n2', type: 'data', label: 'Call:"fs".rm<T>', weight: 15 }]
+    ]),
+    edges: [
+      { from: 'n0', to: 'n1', type: 'structure', weight: 1 },
+      { from: 'n1', to: 'n2', type: 'control', weight: 0.75 },
+      { from: 'n0', to: 'n2', type: 'dataflow', weight: 0.5 }
+    ]
+  };
+  
+  it('should write Graphviz DOT', () => {
+    const dot = toDot(graph);
+    
+    expect(dot).toMatch(/^digraph "LogicalGraph" \{/);
+    expect(dot).toContain(`"n1" [label="Control:IfStatement", fillcolor="${NODE_COLORS.control}"];`);
+    expect(dot).toContain('"n2" [label="Call:\\"fs\\".rm<T>"');
+    expect(dot).toContain('"n0" -> "n2" [style=dashed');
+  });
+  
+  it('should write GraphML', () => {
+    const xml = toGraphML(graph);
+    
+    expect(xml.match(/<node /g)).toHaveLength(3);
+    expect(xml.match(/<edge /g)).toHaveLength(3);
+    expect(xml).toContain('<data key="label">Call:&quot;fs&quot;.rm&lt;T&gt;</data>');
+    expect(xml).toContain('<data key="line">2</data>');
+    expect(xml).toContain('<data key="etype">control</data>');
+  });
+  
+  it('should write a Mermaid flowchart', () => {
+    const mermaid = toMermaid(graph);
+    
+    expect(mermaid.split('\n')[0]).toBe('flowchart TD');
+    expect(mermaid).toContain('n2["Call:#quot;fs#quot;.rm<T>"]:::data');
+    expect(mermaid).toContain('n1 ==> n2');
+    expect(mermaid).toContain('n0 -.-> n2');
+    expect(mermaid).toContain(`classDef pure fill:${NODE_COLORS.pure}`);
+  });
+});
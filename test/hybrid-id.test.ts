@@ -0,0 +1,83 @@
+/**
+ * Tests for CIDs and hybrid IDs
+ */
+
+import {
+  computeCid,
+  parseCid,
+  createHybridId,
+  generateHybridId,
+  parseHybridId,
+  verifyHybridId,
+  createHasher,
+  CidFormatError,
+  HybridIdFormatError,
+  HybridIdVerificationError,
+  PhashFormatError,
+  RAW_CODEC,
+  SHA2_256
+} from '../src';
+
+describe('computeCid', () => {
+  it('should match the CIDv1 IPFS computes for raw bytes', () => {
+    expect(computeCid('')).toBe('bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku');
+    expect(computeCid('hello')).toBe(computeCid(Buffer.from('hello', 'utf8')));
+  });
+  
+  it('should round-trip through parseCid', () => {
+    expect(parseCid(computeCid(''))).toEqual({
+      version: 1,
+      codec: RAW_CODEC,
+      hashFunction: SHA2_256,
+      digest: 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+    });
+  });
+  
+  it('should reject malformed CIDs', () => {
+    const cid = computeCid('x');
+    
+    expect(() => parseCid('QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG')).toThrow(/CIDv0/);
+    expect(() => parseCid('z' + cid.slice(1))).toThrow(/multibase/);
+    expect(() => parseCid(cid.slice(0, -4))).toThrow(CidFormatError);
+    expect(() => parseCid(cid.toUpperCase().replace(/^B/, 'b'))).toThrow(/base32 character/);
+  });
+});
+
+describe('hybrid IDs', () => {
+  const code = 'function add(a, b) { return a + b; }';
+  
+  it('should pair the phash with the CID of the source', () => {
+    const id = createHybridId(code);
+    
+    expect(parseHybridId(id)).toEqual({
+      phash: createHasher().computeHash(code).phash,
+      cid: computeCid(code)
+    });
+  });
+  
+  it('should validate both halves', () => {
+    const { phash, cid } = parseHybridId(createHybridId(code));
+    
+    expect(() => parseHybridId(phash)).toThrow(HybridIdFormatError);
+    expect(() => parseHybridId(`${phash}|${cid}|${cid}`)).toThrow(HybridIdFormatError);
+    expect(() => parseHybridId(`phash:v1:md5:0123456789abcdef|${cid}`)).toThrow(PhashFormatError);
+    expect(() => generateHybridId(phash, 'not-a-cid')).toThrow(CidFormatError);
+  });
+  
+  it('should verify snippets against a stored ID', () => {
+    const id = createHybridId(code, { eigenvalueCount: 8 });
+    
+    expect(verifyHybridId(code, id)).toEqual({ valid: true, phash: true, cid: true });
+    expect(verifyHybridId('function add(x, y) {\n  return x + y;\n}', id)).toEqual({ valid: false, phash: true, cid: false });
+    expect(verifyHybridId('function add(a, b) { if (a) return b; return a + b; }', id).phash).toBe(false);
+  });
+  
+  it('should refuse IDs hashed with a custom weight profile', () => {
+    const id = createHybridId(code, { weightProfile: { name: 'mine', nodeWeight: () => 2 } });
+    
+    expect(id).toMatch(/:wmine:/);
+    expect(() => verifyHybridId(code, id)).toThrow(HybridIdVerificationError);
+    expect(() => verifyHybridId(code, id)).toThrow(/custom weight profile mine/);
+    expect(verifyHybridId(code, createHybridId(code, { weightProfile: 'structural' })).valid).toBe(true);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Tests for incremental hashing
+ */
+
+import { IncrementalHasher, ProteinHasher } from '../src';
+
+describe('IncrementalHasher', () => {
+  const options = { includeMetadata: false };
+  const source = [
+    'function add(a, b) { return a + b; }',
+    'function scale(list, k) { return list.map(x => x * k); }',
+    'class Counter { count = 0; inc() { this.count++; } }'
+  ].join('\n');
+  
+  it('should match a full rehash after every keystroke', () => {
+    const incremental = new IncrementalHasher(options);
+    const full = new ProteinHasher(options);
+    incremental.update(source);
+    
+    // Type `if (a > b) return a - b; ` into add(), one character at a time
+    const insertAt = source.indexOf('return a + b');
+    const typed = 'if (a > b) return a - b; ';
+    for (let i = 1; i <= typed.length; i++) {
+      const text = source.slice(0, insertAt) + typed.slice(0, i) + source.slice(insertAt);
+      expect(incremental.update(text)).toEqual(full.hashFunctions(text));
+    }
+  });
+  
+  it('should only recompute the edited unit and the file', () => {
+    const incremental = new IncrementalHasher(options);
+    incremental.update(source);
+    expect(incremental.getStats()).toMatchObject({ reused: 0, computed: 6 });
+    
+    const offset = source.indexOf('x * k');
+    incremental.edit({ start: offset + 2, end: offset + 3, newText: '+' });
+    
+    // file, scale and its arrow function change; add, Counter and Counter.inc are reused
+    expect(incremental.getStats()).toMatchObject({ reused: 3, computed: 3 });
+    expect(incremental.text).toContain('x + k');
+  });
+  
+  it('should reassemble an edited function from its unchanged statements', () => {
+    const incremental = new IncrementalHasher(options);
+    const full = new ProteinHasher(options);
+    const body = [
+      'function total(items) {',
+      '  let sum = 0;',
+      ...Array.from({ length: 20 }, (_, i) => `  sum += items[${i}] * ${i};`),
+      '  return sum;',
+      '}'
+    ].join('\n');
+    incremental.update(body);
+    
+    // Graph, operations and token counts of the edited statement and of the
+    // function around it, and the graph analyses of the function and the file
+    const edited = body.replace('items[7] * 7', 'items[7] - 7');
+    expect(incremental.update(edited)).toEqual(full.hashFunctions(edited));
+    expect(incremental.getStats()).toEqual({ reused: 0, computed: 2, subtrees: { reused: 67, computed: 8 } });
+    
+    // A new literal leaves the graph as it was
+    const literal = edited.replace('items[7] - 7', 'items[7] - 8');
+    expect(incremental.update(literal)).toEqual(full.hashFunctions(literal));
+    expect(incremental.getStats().subtrees.computed).toBe(6);
+  });
+  
+  it('should match a full rehash when declarations move between scopes', () => {
+    const code = [
+      'var counter = 0;',
+      'class Queue {',
+      '  items = [];',
+      '  push(item) { this.items.push(item); this.flush(); }',
+      '  flush() { for (const item of this.items) { counter++; } }',
+      '}',
+      'function run(jobs) {',
+      '  if (jobs.length) { var last = jobs[0]; }',
+      '  switch (last) { case 1: return run([]); default: break; }',
+      '  const queue = new Queue();',
+      '  jobs.forEach(job => queue.push(job));',
+      '  return last;',
+      '}'
+    ].join('\n');
+    const edits = [
+      (text: string) => text.replace('var last', 'let last'),
+      (text: string) => text.replace('let last', 'var last').replace('  const queue = new Queue();\n', ''),
+      (text: string) => text.replace('{ var last = jobs[0]; }', '{ var last = jobs[0]; const queue = new Queue(); }'),
+      (text: string) => '// queue\n' + text,
+      (text: string) => text.replace('  flush() {', '    flush() {'),
+      (text: string) => text.replace(/ {4}flush\(\) .*\n/, ''),
+      (text: string) => text.replace('var counter', 'let counter')
+    ];
+    
+    for (const config of [{ includeGraph: true }, { includeGraph: true, eraseTypes: true }]) {
+      const incremental = new IncrementalHasher({ ...options, ...config });
+      const full = new ProteinHasher({ ...options, ...config });
+      let text = code;
+      incremental.update(text);
+      for (const edit of edits) {
+        text = edit(text);
+        expect(incremental.update(text)).toEqual(full.hashFunctions(text));
+      }
+    }
+  });
+  
+  it('should reuse Merkle hashes across formatting changes elsewhere', () => {
+    const incremental = new IncrementalHasher(options);
+    const before = incremental.update(source);
+    const text = source.replace('\n', '\n\n\n');
+    const after = incremental.update(text);
+    
+    expect(after.functions[2].span.start.line).toBe(before.functions[2].span.start.line + 2);
+    expect(after.functions[2].hash).toEqual(new ProteinHasher(options).hashFunctions(text).functions[2].hash);
+    expect(incremental.getStats().computed).toBe(1);
+  });
+  
+  it('should not reuse names and recursion from the old context', () => {
+    const incremental = new IncrementalHasher(options);
+    const full = new ProteinHasher(options);
+    const code = [
+      'class Counter { count = 0; inc() { this.count++; } }',
+      'const f = (n) => n > 0 ? f(n - 1) : 0;',
+      'class Setup { constructor() { const init = () => { this.ready = true; }; init(); } }'
+    ].join('\n');
+    incremental.update(code);
+    
+    const renamed = code.replace('class Counter', 'class Tally').replace('const f', 'const g');
+    const result = incremental.update(renamed);
+    expect(result).toEqual(full.hashFunctions(renamed));
+    expect(result.functions[1].hash.metrics.functions[0].name).toBe('Tally.inc');
+    expect(result.functions[2].hash.metrics.cognitive).toBe(1);
+    
+    const moved = renamed.replace('constructor()', 'start()');
+    expect(incremental.update(moved)).toEqual(full.hashFunctions(moved));
+  });
+  
+  it('should keep graph spans exact when units move', () => {
+    const incremental = new IncrementalHasher({ ...options, includeGraph: true });
+    incremental.update(source);
+    const text = '// header\n' + source;
+    
+    expect(incremental.update(text)).toEqual(new ProteinHasher({ ...options, includeGraph: true }).hashFunctions(text));
+  });
+  
+  it('should reject invalid edits and type-aware options', () => {
+    const incremental = new IncrementalHasher(options);
+    incremental.update('const a = 1;');
+    
+    expect(() => incremental.edit({ start: 5, end: 50, newText: '' })).toThrow(/outside the text/);
+    expect(() => new IncrementalHasher({ typeAware: true })).toThrow(/type-aware/);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Tests for the locality-sensitive fingerprint
+ */
+
+import { ProteinHasher, hammingDistance, lshSimilarity, lshBuckets } from '../src';
+
+describe('LSH fingerprint', () => {
+  const hasher = new ProteinHasher();
+  const base = 'function sum(list) { let total = 0; for (const x of list) { if (x > 0) { total += x; } } return total; }';
+  
+  it('should be a 64-bit hex string', () => {
+    expect(hasher.computeHash(base).lsh).toMatch(/^[0-9a-f]{16}$/);
+  });
+  
+  it('should ignore renaming', () => {
+    const renamed = 'function sum(items) { let acc = 0; for (const v of items) { if (v > 0) { acc += v; } } return acc; }';
+    expect(hasher.computeHash(renamed).lsh).toBe(hasher.computeHash(base).lsh);
+  });
+  
+  it('should keep near-duplicates closer than unrelated code', () => {
+    const nearDuplicate = 'function sum(list) { let total = 0; for (const x of list) { if (x > 0) { total += x * 2; } } return total; }';
+    const unrelated = 'class Stack { items = []; push(x) { this.items.push(x); } pop() { return this.items.pop(); } }';
+    
+    const lshBase = hasher.computeHash(base).lsh;
+    const near = hammingDistance(lshBase, hasher.computeHash(nearDuplicate).lsh);
+    const far = hammingDistance(lshBase, hasher.computeHash(unrelated).lsh);
+    
+    expect(near).toBeLessThan(far);
+    expect(lshSimilarity(lshBase, lshBase)).toBe(1);
+  });
+});
+
+describe('lshBuckets', () => {
+  it('should split the fingerprint into keyed bands', () => {
+    expect(lshBuckets('0123456789abcdef')).toEqual(['0:0123', '1:4567', '2:89ab', '3:cdef']);
+    expect(lshBuckets('0123456789abcdef', 2)).toEqual(['0:01234567', '1:89abcdef']);
+  });
+  
+  it('should reject invalid input', () => {
+    expect(() => lshBuckets('0123456789abcdef', 3)).toThrow(/bands/);
+    expect(() => hammingDistance('xyz', '0123456789abcdef')).toThrow(/hex/);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Tests for cyclomatic, cognitive and Halstead metrics
+ */
+
+import * as ts from 'typescript';
+import { MetricsAnalyzer, ProteinHasher } from '../src';
+
+describe('MetricsAnalyzer', () => {
+  const analyze = (code: string, eraseTypes = false) =>
+    new MetricsAnalyzer(eraseTypes).analyze(ts.createSourceFile('temp.ts', code, ts.ScriptTarget.Latest, true));
+  
+  const branchy = [
+    'function walk(x) {',
+    '  if (x > 0) {',               // cognitive +1
+    '    for (const a of x) {',     // +2 (nesting 1)
+    '      if (a && b && c) {',     // +3 (nesting 2), +1 for the && run
+    '        continue;',
+    '      }',
+    '    }',
+    '  } else if (x < 0) {',        // +1
+    '    return x ? 1 : 2;',        // +2 (nesting 1)
+    '  } else {',                   // +1
+    '    return walk(x - 1);',      // +1 recursion
+    '  }',
+    '  const g = () => { if (x) return 1; };',  // +2 (nested function)
+    '}'
+  ].join('\n');
+  
+  it('should count decision points per function', () => {
+    const { functions, cyclomatic } = analyze(branchy);
+    
+    expect(functions.map(unit => [unit.name, unit.kind, unit.cyclomatic])).toEqual([
+      ['walk', 'function', 8],
+      ['g', 'arrow', 2]
+    ]);
+    expect(cyclomatic).toBe(10);
+  });
+  
+  it('should weigh cognitive complexity by nesting', () => {
+    const { functions, cognitive } = analyze(branchy);
+    
+    expect(functions[0].cognitive).toBe(14);
+    expect(functions[1].cognitive).toBe(1);
+    expect(cognitive).toBe(14);
+  });
+  
+  it('should count a run of one logical operator once', () => {
+    expect(analyze('function f(a, b, c) { return a && b && c; }').cognitive).toBe(1);
+    expect(analyze('function f(a, b, c) { return a && b || c; }').cognitive).toBe(2);
+  });
+  
+  it('should count Halstead operators and operands', () => {
+    const { halstead } = analyze('function add(a, b) { return a + b; }');
+    
+    // Operators: function ( , { return + ;  Operands: add a b a b
+    expect(halstead).toMatchObject({
+      distinctOperators: 7,
+      distinctOperands: 3,
+      operators: 7,
+      operands: 5,
+      vocabulary: 10,
+      length: 12
+    });
+    expect(halstead.volume).toBeCloseTo(12 * Math.log2(10));
+    expect(halstead.difficulty).toBeCloseTo((7 / 2) * (5 / 3));
+    expect(halstead.effort).toBeCloseTo(halstead.volume * halstead.difficulty);
+  });
+  
+  it('should leave type syntax out of Halstead metrics with eraseTypes', () => {
+    const typed = analyze('function add(a: number, b: number): number { return (a as number) + b!; }', true);
+    
+    expect(typed.halstead).toEqual(analyze('function add(a, b) { return a + b; }').halstead);
+    expect(analyze('function id<T, U>(x: T): T { return f<T, U>(x); }', true).halstead)
+      .toEqual(analyze('function id(x) { return f(x); }').halstead);
+  });
+  
+  it('should score straight-line code as 1 and measure top-level branches', () => {
+    expect(analyze('const a = 1;').cyclomatic).toBe(1);
+    expect(analyze('function f() {}\nfunction g() {}').cyclomatic).toBe(2);
+    expect(analyze('if (a) b();').cyclomatic).toBe(2);
+  });
+  
+  it('should report cyclomatic complexity as the result complexity', () => {
+    const result = new ProteinHasher().hashFunctions(branchy);
+    
+    expect(result.file.complexity).toBe(10);
+    expect(result.file.metrics.functions).toHaveLength(2);
+    expect(result.functions[0].hash.complexity).toBe(10);  // walk() and the arrow inside it
+    expect(result.functions[0].hash.metrics.functions[0].cyclomatic).toBe(8);
+    expect(result.functions[0].hash.metrics.functions[0].span).toEqual(result.functions[0].span);
+  });
+});
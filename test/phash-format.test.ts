@@ -0,0 +1,108 @@
+/**
+ * Tests for the phash wire format
+ */
+
+import {
+  ProteinHasher,
+  createHasher,
+  compareHashes,
+  formatPhash,
+  parsePhash,
+  isValidPhash,
+  negotiateVersion,
+  PhashFormatError,
+  PhashVersionError
+} from '../src';
+
+describe('parsePhash', () => {
+  it('should parse default-config hashes', () => {
+    expect(parsePhash('phash:v1:sha256:0123456789abcdef')).toEqual({
+      version: 'v1',
+      algorithm: 'sha256',
+      config: '',
+      settings: {},
+      digest: '0123456789abcdef'
+    });
+  });
+  
+  it('should decode the config fingerprint', () => {
+    const parsed = parsePhash('phash:v1:sha512:k10.q10000:0123456789abcdef');
+    expect(parsed.algorithm).toBe('sha512');
+    expect(parsed.config).toBe('k10.q10000');
+    expect(parsed.settings).toEqual({ eigenvalueCount: 10, quantizationLevels: 10000 });
+    expect(parsePhash('phash:v1:sha256:cal:0123456789abcdef').settings)
+      .toEqual({ canonicalize: ['arithmetic', 'logical'] });
+  });
+  
+  it('should round-trip hashes produced by the hasher', () => {
+    const phash = createHasher({ eigenvalueCount: 3 }).computeHash('const f = x => x + 1;').phash;
+    const parsed = parsePhash(phash);
+    
+    expect(parsed.settings.eigenvalueCount).toBe(3);
+    expect(formatPhash(parsed)).toBe(phash);
+  });
+  
+  it.each([
+    ['not-a-phash'],
+    ['phash:1:sha256:0123456789abcdef'],
+    ['phash:v1:md5:0123456789abcdef'],
+    ['phash:v1:sha256:0123456789ABCDEF'],
+    ['phash:v1:sha256:0123'],
+    ['phash:v1:sha256:z9:0123456789abcdef'],
+    ['phash:v1:sha256:k0:0123456789abcdef'],
+    ['phash:v1:sha256:k5:extra:0123456789abcdef'],
+    ['phash:v1:blake3:0123456789abcdef']
+  ])('should reject %s', (phash) => {
+    expect(() => parsePhash(phash)).toThrow(PhashFormatError);
+    expect(isValidPhash(phash)).toBe(false);
+  });
+  
+  it.each([
+    ['k5', 'a default value'],
+    ['q10.k10', 'out of order'],
+    ['k10.k20', 'a duplicate key'],
+    ['cabc', 'the default operator classes'],
+    ['i7', 'refinement rounds without fwl'],
+    ['wdefault', 'the default weight profile']
+  ])('should reject the non-canonical fingerprint %s (%s)', (config) => {
+    const phash = `phash:v1:sha256:${config}:0123456789abcdef`;
+    expect(() => parsePhash(phash)).toThrow(/Non-canonical/);
+    expect(isValidPhash(phash)).toBe(false);
+  });
+  
+  it('should accept fingerprints the hasher writes', () => {
+    expect(isValidPhash('phash:v1:sha256:k10.q10:0123456789abcdef')).toBe(true);
+    expect(isValidPhash('phash:v1:sha256:fwl.i7:0123456789abcdef')).toBe(true);
+    expect(isValidPhash('phash:v1:sha256:wmy-profile:0123456789abcdef')).toBe(true);
+  });
+  
+  it('should reject future versions with a version error', () => {
+    expect(() => parsePhash('phash:v2:sha256:0123456789abcdef')).toThrow(PhashVersionError);
+  });
+});
+
+describe('formatPhash', () => {
+  it('should omit an empty config segment', () => {
+    expect(formatPhash({ algorithm: 'sha256', digest: 'fedcba9876543210' }))
+      .toBe('phash:v1:sha256:fedcba9876543210');
+  });
+  
+  it('should validate its parts', () => {
+    expect(() => formatPhash({ algorithm: 'sha256', digest: 'nothex' })).toThrow(PhashFormatError);
+  });
+});
+
+describe('version negotiation', () => {
+  it('should agree on matching versions', () => {
+    expect(negotiateVersion('phash:v1:sha256:0123456789abcdef', 'phash:v1:sha512:0123456789abcdef')).toBe('v1');
+  });
+  
+  it('should fail loudly when comparing across versions', () => {
+    const hasher = new ProteinHasher();
+    const current = hasher.computeHash('function add(a, b) { return a + b; }');
+    const future = { ...current, phash: 'phash:v2:sha256:0123456789abcdef' };
+    
+    expect(() => hasher.compareSimilarity(current, future)).toThrow(PhashVersionError);
+    expect(() => compareHashes(future, current)).toThrow(/v2/);
+  });
+});
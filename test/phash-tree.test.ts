@@ -0,0 +1,95 @@
+/**
+ * Tests for hierarchical phash trees
+ */
+
+import {
+  ProteinHasher,
+  buildPhashTree,
+  diffPhashTrees,
+  serializePhashTree,
+  deserializePhashTree,
+  SerializationError
+} from '../src';
+
+describe('phash tree', () => {
+  const hasher = new ProteinHasher({ includeMetadata: false, enableAdvancedAnalysis: false });
+  const tree = (code: string) => buildPhashTree(hasher.hashFunctions(code, 'shapes.ts'));
+  const source = [
+    'class Circle {',
+    '  constructor(r) { this.r = r; }',
+    '  area() { return Math.PI * this.r * this.r; }',
+    '  scale(k) { return new Circle(this.r * k); }',
+    '}',
+    'function total(shapes) {',
+    '  return shapes.reduce((sum, s) => sum + s.area(), 0);',
+    '}'
+  ].join('\n');
+  
+  it('should nest units by position', () => {
+    const root = tree(source);
+    const shape = (node: typeof root): unknown => [node.kind, node.name, node.children.map(shape)];
+    
+    expect(shape(root)).toEqual(['file', 'shapes.ts', [
+      ['class', 'Circle', [
+        ['method', 'Circle.constructor', []],
+        ['method', 'Circle.area', []],
+        ['method', 'Circle.scale', []]
+      ]],
+      ['function', 'total', [
+        ['arrow', '<anonymous>', []]
+      ]]
+    ]]);
+    expect(root.phash).toBe(hasher.computeHash(source, { fileName: 'shapes.ts' }).phash);
+    expect(root.digest).toMatch(/^[0-9a-f]{16}$/);
+  });
+  
+  it('should keep every digest across renames and reformatting', () => {
+    const renamed = source.replace(/\br\b/g, 'radius').replace(/\bk\b/g, 'factor').replace(/ {2}/g, '    ');
+    expect(tree(renamed).digest).toBe(tree(source).digest);
+    expect(diffPhashTrees(tree(source), tree(renamed))).toEqual([]);
+  });
+  
+  it('should locate the method whose semantics moved', () => {
+    const before = tree(source);
+    const after = tree(source.replace('return Math.PI * this.r * this.r;', 'if (this.r < 0) return 0; return Math.PI * this.r * this.r;'));
+    const changes = diffPhashTrees(before, after).map(({ change, path }) => [change, path.join(' > ')]);
+    
+    expect(changes).toEqual([
+      ['modified', 'shapes.ts'],
+      ['modified', 'shapes.ts > Circle'],
+      ['modified', 'shapes.ts > Circle > Circle.area']
+    ]);
+    expect(after.children[1].digest).toBe(before.children[1].digest);
+  });
+  
+  it('should report added, removed and renamed units', () => {
+    const before = tree('function a(x) { return x + 1; }\nfunction b(x) { return x * 2; }');
+    const after = tree('function c(x) { return x + 1; }\nfunction d(x) { if (x) return x; return 0; }');
+    const changes = diffPhashTrees(before, after).map(({ change, path }) => [change, path[path.length - 1]]);
+    
+    expect(changes).toEqual([
+      ['modified', 'shapes.ts'],
+      ['renamed', 'c'],
+      ['added', 'd'],
+      ['removed', 'b']
+    ]);
+  });
+  
+  it('should round-trip through the compact form', () => {
+    const root = tree(source);
+    const json = serializePhashTree(root);
+    
+    expect(deserializePhashTree(json)).toEqual(root);
+    expect(json.length).toBeLessThan(JSON.stringify(root).length / 2);
+  });
+  
+  it('should reject tampered trees', () => {
+    const json = serializePhashTree(tree(source));
+    const { tree: compact } = JSON.parse(json);
+    compact[4][0][2] = '0123456789abcdef';
+    
+    expect(() => deserializePhashTree(JSON.stringify({ ...JSON.parse(json), tree: compact }))).toThrow(/Merkle digest/);
+    expect(() => deserializePhashTree('{')).toThrow(SerializationError);
+    expect(() => deserializePhashTree(json.replace('"formatVersion":1', '"formatVersion":2'))).toThrow(/format version/);
+  });
+});
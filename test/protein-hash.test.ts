@@ -2,12 +2,23 @@
  * Tests for Protein Hash
  */
 
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import * as ts from 'typescript';
+
 import { 
   ProteinHasher,
   isSemanticallyEquivalent,
   computeSimilarity,
   groupBySimilarity,
-  compareHashes
+  compareHashes,
+  createHasher,
+  inferScriptKind,
+  ProteinHashParseError,
+  parsePhash,
+  OperationCategory,
+  WeightedNode
 } from '../src';
 
 describe('ProteinHasher', () => {
@@ -53,6 +64,28 @@ describe('ProteinHasher', () => {
     });
   });
   
+  describe('graph edges', () => {
+    it('should distinguish equal syntax shapes with different data flow', () => {
+      const returnsParam = hasher.computeHash('function f(a, b) { const c = a + 1; return b * 2; }');
+      const returnsLocal = hasher.computeHash('function f(a, b) { const c = a + 1; return c * 2; }');
+      
+      expect(returnsParam.nodes).toBe(returnsLocal.nodes);
+      expect(returnsParam.phash).not.toBe(returnsLocal.phash);
+    });
+    
+    it('should distinguish guarded code from unguarded code', () => {
+      const guarded = hasher.computeHash('function g(x) { if (x > 0) { return 1; } return 2; }');
+      const unguarded = hasher.computeHash('function g(x) { if (x > 0) { } return 1; return 2; }');
+      
+      expect(guarded.phash).not.toBe(unguarded.phash);
+    });
+    
+    it('should link recursive calls back to their function', () => {
+      const result = hasher.computeHash('function fact(n) { return n <= 1 ? 1 : n * fact(n - 1); }');
+      expect(result.topology?.hasCycles).toBe(true);
+    });
+  });
+  
   describe('compareSimilarity', () => {
     it('should return 1.0 for identical code', () => {
       const code = 'function test() { return 42; }';
@@ -87,6 +120,420 @@ describe('ProteinHasher', () => {
   });
 });
 
+describe('hashFunctions', () => {
+  const code = [
+    'function add(a, b) { return a + b; }',
+    'const double = (x) => x * 2;',
+    'class Calculator {',
+    '  compute(n) {',
+    '    return n * n;',
+    '  }',
+    '}'
+  ].join('\n');
+  
+  it('should emit one result per unit with name, kind and span', () => {
+    const result = new ProteinHasher().hashFunctions(code);
+    
+    expect(result.functions.map(f => [f.name, f.kind])).toEqual([
+      ['add', 'function'],
+      ['double', 'arrow'],
+      ['Calculator', 'class'],
+      ['Calculator.compute', 'method']
+    ]);
+    
+    const compute = result.functions[3];
+    expect(compute.span).toEqual({
+      start: { line: 4, column: 3 },
+      end: { line: 6, column: 4 }
+    });
+    expect(compute.hash.phash).toMatch(/^phash:v1:sha256:[a-f0-9]{16}$/);
+  });
+  
+  it('should provide the file-level aggregate', () => {
+    const hasher = new ProteinHasher();
+    const result = hasher.hashFunctions(code);
+    
+    expect(result.file.phash).toBe(hasher.computeHash(code).phash);
+    expect(result.file.nodes).toBeGreaterThan(result.functions[0].hash.nodes);
+  });
+  
+  it('should fingerprint equal functions identically wherever they appear', () => {
+    const result = new ProteinHasher().hashFunctions(
+      'function a(x) { return x + 1; }\nfunction b(y) { if (y) { return y - 1; } }\nfunction c(z) { return z + 1; }'
+    );
+    const [a, b, c] = result.functions;
+    
+    expect(a.hash.phash).toBe(c.hash.phash);
+    expect(a.hash.phash).not.toBe(b.hash.phash);
+  });
+  
+  it('should hash files from disk', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'phash-'));
+    try {
+      const path = join(dir, 'math.ts');
+      writeFileSync(path, code);
+      
+      const result = new ProteinHasher().hashFile(path);
+      expect(result.fileName).toBe(path);
+      expect(result.functions).toHaveLength(4);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('script kinds', () => {
+  const component = 'export function Hello({ name }) { return <div className="greeting">Hi {name}</div>; }';
+  const options = { includeMetadata: false };
+  
+  it('should parse JSX when the file name or script kind asks for it', () => {
+    const hasher = new ProteinHasher(options);
+    const tsx = hasher.computeHash(component, { fileName: 'Hello.tsx' });
+    
+    expect(hasher.computeHash(component, { scriptKind: ts.ScriptKind.TSX })).toEqual(tsx);
+    expect(hasher.computeHash(component, { scriptKind: ts.ScriptKind.JSX }).phash).toBe(tsx.phash);
+    expect(hasher.computeHash(component).phash).not.toBe(tsx.phash);
+    
+    const labels = Array.from(hasher.buildGraph(component, 'Hello.tsx').nodes.values(), node => node.label);
+    expect(labels).toContain('JsxElement');
+    expect(hasher.buildGraph(component, { scriptKind: ts.ScriptKind.JSX })).toEqual(hasher.buildGraph(component, 'Hello.jsx'));
+  });
+  
+  it('should hash JSX source per function', () => {
+    const hasher = new ProteinHasher(options);
+    const result = hasher.hashFunctions(component, { scriptKind: ts.ScriptKind.JSX });
+    
+    expect(result.fileName).toBe('temp.jsx');
+    expect(result.file).toEqual(hasher.computeHash(component, { scriptKind: ts.ScriptKind.JSX }));
+    expect(result.functions.map(f => f.name)).toEqual(['Hello']);
+  });
+  
+  it('should infer the script kind of files from their extension', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'phash-'));
+    try {
+      writeFileSync(join(dir, 'Hello.jsx'), component);
+      
+      const hasher = new ProteinHasher(options);
+      const result = hasher.hashFile(join(dir, 'Hello.jsx'));
+      expect(result.file).toEqual(hasher.computeHash(component, { scriptKind: ts.ScriptKind.JSX }));
+      expect(result.functions.map(f => f.name)).toEqual(['Hello']);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+    
+    expect(['a.ts', 'a.tsx', 'a.js', 'a.mjs', 'a.jsx', 'a.vue'].map(inferScriptKind)).toEqual([
+      ts.ScriptKind.TS, ts.ScriptKind.TSX, ts.ScriptKind.JS, ts.ScriptKind.JS, ts.ScriptKind.JSX, ts.ScriptKind.TS
+    ]);
+  });
+  
+  it('should reject script kinds other than TS, TSX, JS and JSX', () => {
+    expect(() => new ProteinHasher().computeHash('{}', { scriptKind: ts.ScriptKind.JSON }))
+      .toThrow('Unsupported script kind JSON');
+  });
+});
+
+describe('parse diagnostics', () => {
+  const broken = 'function ok(a) { return a; }\nfunction half(b) {\n  return b +;\n}';
+  
+  it('should report syntax errors with positions', () => {
+    const hasher = new ProteinHasher();
+    expect(hasher.computeHash('const x = 1;').diagnostics).toEqual([]);
+    
+    const { diagnostics } = hasher.computeHash(broken);
+    expect(diagnostics).toEqual([{
+      code: 1109,
+      message: 'Expression expected.',
+      span: { start: { line: 3, column: 13 }, end: { line: 3, column: 14 } }
+    }]);
+  });
+  
+  it('should attach diagnostics to the units that contain them', () => {
+    const { file, functions } = new ProteinHasher().hashFunctions(broken);
+    expect(file.diagnostics).toHaveLength(1);
+    expect(functions.map(f => [f.name, f.hash.diagnostics.length])).toEqual([['ok', 0], ['half', 1]]);
+  });
+  
+  it('should throw ProteinHashParseError in strict mode', () => {
+    const hasher = new ProteinHasher({ strict: true });
+    expect(hasher.computeHash('const x = 1;').diagnostics).toEqual([]);
+    
+    let error: unknown;
+    try {
+      hasher.hashFunctions(broken, 'half.ts');
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(ProteinHashParseError);
+    expect((error as ProteinHashParseError).message).toBe('half.ts:3:13: Expression expected.');
+    expect((error as ProteinHashParseError).fileName).toBe('half.ts');
+    expect((error as ProteinHashParseError).diagnostics).toHaveLength(1);
+  });
+});
+
+describe('eraseTypes', () => {
+  const sources = [
+    [
+      'export function total(items: Array<{ price: number }>, tax?: number): number {',
+      '  let sum: number = 0;',
+      '  for (const item of items) { sum += item.price; }',
+      '  return sum * (1 + (tax ?? 0));',
+      '}'
+    ].join('\n'),
+    [
+      'interface Shape { area(): number }',
+      'export class Circle implements Shape {',
+      '  private readonly r: number;',
+      '  constructor(r: number) { this.r = r; }',
+      '  area(): number { return Math.PI * this.r ** 2; }',
+      '}'
+    ].join('\n'),
+    [
+      "import type { Foo } from './foo';",
+      'function first<T>(xs: T[]): T | undefined { return xs.length > 0 ? xs[0]! : undefined; }',
+      'function parse(v: unknown) { return (v as string).trim(); }',
+      'export function go(x: any) { if (x as boolean) { (parse as any)(x); } return first<number>([1, 2]); }'
+    ].join('\n'),
+    [
+      'function over(a: string): string;',
+      'function over(a: any): any { return a; }',
+      'declare const env: string;',
+      "const cfg = { mode: 'x' } satisfies Record<string, string>;"
+    ].join('\n')
+  ];
+  const compile = (source: string) => ts.transpileModule(source, {
+    compilerOptions: { target: ts.ScriptTarget.ES2022, module: ts.ModuleKind.ESNext, useDefineForClassFields: false }
+  }).outputText;
+  
+  it('should hash TypeScript like the JavaScript it compiles to', () => {
+    const hasher = new ProteinHasher({ eraseTypes: true });
+    for (const source of sources) {
+      const javascript = compile(source);
+      expect(hasher.computeHash(source).phash).toBe(hasher.computeHash(javascript, { fileName: 'out.js' }).phash);
+    }
+  });
+  
+  it('should score TypeScript and its JavaScript as equivalent', () => {
+    const hasher = new ProteinHasher({ eraseTypes: true });
+    for (const source of sources) {
+      const typescript = hasher.computeHash(source);
+      const javascript = hasher.computeHash(compile(source), { fileName: 'out.js' });
+      
+      expect(hasher.compareSimilarity(typescript, javascript)).toBeCloseTo(1, 10);
+      expect(typescript.consciousness).toEqual(javascript.consciousness);
+      expect(typescript.patterns).toEqual(javascript.patterns);
+      expect(typescript.metrics.halstead).toEqual(javascript.metrics.halstead);
+    }
+  });
+  
+  it('should keep type syntax in the graph by default', () => {
+    const hasher = new ProteinHasher();
+    const [source] = sources;
+    expect(hasher.computeHash(source).phash).not.toBe(hasher.computeHash(compile(source), { fileName: 'out.js' }).phash);
+  });
+  
+  it('should mark erased hashes in the phash prefix', () => {
+    const { phash } = new ProteinHasher({ eraseTypes: true }).computeHash('const x = 1;');
+    expect(phash).toMatch(/^phash:v1:sha256:e:[0-9a-f]{16}$/);
+    expect(parsePhash(phash).settings).toEqual({ eraseTypes: true });
+  });
+});
+
+describe('weight profiles', () => {
+  const add = 'function f(a, b) { return g(a - b); }';
+  const multiply = 'function f(a, b) { return g(a / b); }';
+  
+  it('should keep default hashes and name other profiles in the prefix', () => {
+    expect(createHasher({ weightProfile: 'default' }).computeHash(add).phash).toBe(createHasher().computeHash(add).phash);
+    
+    const { phash } = createHasher({ weightProfile: 'call-heavy' }).computeHash(add);
+    expect(phash).toMatch(/^phash:v1:sha256:wcall-heavy:[0-9a-f]{16}$/);
+    expect(parsePhash(phash).settings).toEqual({ weightProfile: 'call-heavy' });
+  });
+  
+  it('should decide which differences count', () => {
+    const hash = (weightProfile: string, code: string) => createHasher({ weightProfile }).computeHash(code).phash;
+    
+    expect(hash('structural', add)).toBe(hash('structural', multiply));
+    expect(hash('operation-sensitive', add)).not.toBe(hash('operation-sensitive', multiply));
+  });
+  
+  it('should accept custom profiles', () => {
+    const profile = { name: 'loops', nodeWeight: (node: WeightedNode) => (node.type === 'control' ? 50 : 1) };
+    const result = createHasher({ weightProfile: profile, includeGraph: true }).computeHash('for (;;) { f(); }');
+    
+    expect(result.phash).toMatch(/:wloops:/);
+    expect(Array.from(result.graph!.nodes.values()).some(node => node.weight === 50)).toBe(true);
+  });
+  
+  it('should reject unknown names and invalid profiles', () => {
+    expect(() => createHasher({ weightProfile: 'heavy' })).toThrow(/Unknown weight profile/);
+    expect(() => createHasher({ weightProfile: { name: 'structural', nodeWeight: () => 2 } })).toThrow(/built-in name/);
+    expect(() => createHasher({ weightProfile: { name: 'Bad Name', nodeWeight: () => 2 } })).toThrow(/must match/);
+    expect(() => createHasher({ weightProfile: { name: 'zero', nodeWeight: () => 0 } }).computeHash(add))
+      .toThrow(/positive and finite/);
+  });
+});
+
+describe('createHasher', () => {
+  const code = 'function add(a, b) { return a + b; }';
+  
+  it('should keep the v1 prefix for default settings', () => {
+    const result = createHasher().computeHash(code);
+    expect(result.phash).toMatch(/^phash:v1:sha256:[a-f0-9]{16}$/);
+    expect(result.metadata?.config).toEqual({
+      eigenvalueCount: 5,
+      quantizationLevels: 1000,
+      algorithm: 'sha256',
+      includeMetadata: true,
+      includeGraph: false,
+      canonicalize: ['arithmetic', 'bitwise', 'comparison'],
+      typeAware: false,
+      fingerprint: 'spectral',
+      wlIterations: 3,
+      strict: false,
+      eraseTypes: false,
+      weightProfile: 'default'
+    });
+  });
+  
+  it('should honor eigenvalueCount', () => {
+    const result = createHasher({ eigenvalueCount: 3 }).computeHash(code);
+    expect(result.eigenTop).toHaveLength(3);
+    expect(result.phash).toMatch(/^phash:v1:sha256:k3:[a-f0-9]{16}$/);
+  });
+  
+  it('should encode quantizationLevels in the prefix', () => {
+    const result = createHasher({ quantizationLevels: 10 }).computeHash(code);
+    expect(result.phash).toMatch(/^phash:v1:sha256:q10:[a-f0-9]{16}$/);
+  });
+  
+  it('should honor algorithm', () => {
+    const result = createHasher({ algorithm: 'sha512' }).computeHash(code);
+    expect(result.phash).toMatch(/^phash:v1:sha512:[a-f0-9]{16}$/);
+  });
+  
+  it('should omit metadata when includeMetadata is false', () => {
+    const result = createHasher({ includeMetadata: false }).computeHash(code);
+    expect(result.metadata).toBeUndefined();
+  });
+  
+  it('should canonicalize commutative and associative operators', () => {
+    const hasher = createHasher();
+    const phash = (code: string) => hasher.computeHash(code).phash;
+    
+    expect(phash('function f(a, b) { return (a + 2) * b; }')).toBe(phash('function f(a, b) { return b * (a + 2); }'));
+    expect(phash('function f(a, b, c) { return (a * b) * (c - 3); }')).toBe(phash('function f(a, b, c) { return a * ((c - 3) * b); }'));
+    expect(phash('function f(a) { return a === 1; }')).toBe(phash('function f(a) { return 1 === a; }'));
+  });
+  
+  it('should not reorder string concatenation or side effects', () => {
+    const hasher = createHasher();
+    const phash = (code: string) => hasher.computeHash(code).phash;
+    
+    expect(phash("name => 'Hello ' + name")).not.toBe(phash("name => name + 'Hello '"));
+    expect(phash('s => 1 + 2 + s')).not.toBe(phash('s => 1 + (2 + s)'));
+    expect(phash('g => g() * g(g())')).not.toBe(phash('g => g(g()) * g()'));
+    expect(phash('a => a - 1')).not.toBe(phash('a => 1 - a'));
+    expect(phash('(a, b) => (a = b) * 2')).not.toBe(phash('(a, b) => 2 * (a = b)'));
+  });
+  
+  it('should canonicalize + when the type checker proves it numeric', () => {
+    const typed = createHasher({ typeAware: true });
+    const phash = (code: string) => typed.computeHash(code).phash;
+    
+    expect(phash('(a: number, b: number) => a + b')).toBe(phash('(a: number, b: number) => b + a'));
+    expect(phash('(a: number, b: number, c: number) => (a + b) + c')).toBe(phash('(a: number, b: number, c: number) => a + (b + c)'));
+    expect(phash("(s: string) => 'Hello ' + s")).not.toBe(phash("(s: string) => s + 'Hello '"));
+    expect(phash('(s: string) => 1 + 2 + s')).not.toBe(phash('(s: string) => 1 + (2 + s)'));
+  });
+  
+  it('should make canonicalization configurable per operator class', () => {
+    const hasher = createHasher({ canonicalize: [OperationCategory.LOGICAL] });
+    
+    expect(hasher.computeHash('x => x').phash).toMatch(/^phash:v1:sha256:cl:[a-f0-9]{16}$/);
+    expect(hasher.computeHash('a => (a && 1) && 2').phash)
+      .toBe(hasher.computeHash('a => a && (1 && 2)').phash);
+    expect(hasher.computeHash('a => (a + 1) + 2').phash)
+      .not.toBe(hasher.computeHash('a => a + (1 + 2)').phash);
+  });
+  
+  it('should not reorder short-circuiting operands', () => {
+    const hasher = createHasher({ canonicalize: [OperationCategory.LOGICAL] });
+    const phash = (code: string) => hasher.computeHash(code).phash;
+    
+    expect(phash('x => x && x.y')).not.toBe(phash('x => x.y && x'));
+    expect(phash('a => a || 0')).not.toBe(phash('a => 0 || a'));
+    expect(phash('(a, b) => (a && b) && 1')).toBe(phash('(a, b) => a && (b && 1)'));
+  });
+  
+  it('should reject invalid settings', () => {
+    expect(() => createHasher({ eigenvalueCount: 0 })).toThrow(/eigenvalueCount/);
+    expect(() => createHasher({ algorithm: 'blake3' })).toThrow(/blake3/);
+  });
+});
+
+describe('type-aware hashing', () => {
+  const pure = 'function run(a: any, b: any) { return Math.max(a, b); }';
+  const impure = 'function run(a: any, b: any) { return console.log(a, b); }';
+  const typed = createHasher({ typeAware: true });
+  
+  it('should tell callees apart that plain hashing cannot', () => {
+    const plain = createHasher();
+    expect(plain.computeHash(pure).phash).toBe(plain.computeHash(impure).phash);
+    
+    const a = typed.computeHash(pure);
+    const b = typed.computeHash(impure);
+    expect(a.phash).toMatch(/^phash:v1:sha256:t:[a-f0-9]{16}$/);
+    expect(a.phash).not.toBe(b.phash);
+  });
+  
+  it('should fold known side effects into purity', () => {
+    expect(typed.computeHash(pure).purity).toBe(1);
+    expect(typed.computeHash(impure).impurities.map(reason => reason.kind)).toEqual(['io']);
+  });
+  
+  it('should resolve imported module members', () => {
+    const result = typed.computeHash("import * as fs from 'fs';\nexport const rm = (p: string) => fs.unlinkSync(p);");
+    expect(result.purity).toBe(0.5);
+  });
+  
+  it('should distinguish result types of the same operator', () => {
+    expect(typed.computeHash('const f = (a: number, b: number) => a + b;').phash)
+      .not.toBe(typed.computeHash('const f = (a: string, b: string) => a + b;').phash);
+  });
+  
+  it('should tell constructed classes apart', () => {
+    const plain = createHasher();
+    const map = 'function make() { return new Map(); }';
+    const set = 'function make() { return new Set(); }';
+    
+    expect(plain.computeHash(map).phash).toBe(plain.computeHash(set).phash);
+    expect(typed.computeHash(map).phash).not.toBe(typed.computeHash(set).phash);
+  });
+  
+  it('should stay insensitive to local names', () => {
+    expect(typed.computeHash('function sq(x: number) { return x * x; }\nconst y = sq(2);').phash)
+      .toBe(typed.computeHash('function square(n: number) { return n * n; }\nconst z = square(2);').phash);
+  });
+  
+  it('should use the program described by a tsconfig', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'phash-'));
+    try {
+      writeFileSync(join(dir, 'tsconfig.json'), JSON.stringify({ compilerOptions: { strict: true }, include: ['*.ts'] }));
+      writeFileSync(join(dir, 'max.ts'), 'export const top = (a: number[]) => Math.max(...a);');
+      
+      const hasher = new ProteinHasher({ tsconfig: join(dir, 'tsconfig.json') });
+      const result = hasher.hashFile(join(dir, 'max.ts'));
+      
+      expect(hasher.getConfig().typeAware).toBe(true);
+      expect(result.file.phash).toMatch(/:t:/);
+      expect(result.functions[0].hash.purity).toBe(1);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
 describe('Utility functions', () => {
   describe('isSemanticallyEquivalent', () => {
     it('should identify semantic twins', () => {
@@ -0,0 +1,72 @@
+/**
+ * Tests for side-effect analysis
+ */
+
+import * as ts from 'typescript';
+import { ProteinHasher, PurityAnalyzer } from '../src';
+
+describe('PurityAnalyzer', () => {
+  const analyzer = new PurityAnalyzer();
+  const analyze = (code: string) => analyzer.analyze(ts.createSourceFile('temp.ts', code, ts.ScriptTarget.Latest, true));
+  const kinds = (code: string) => analyze(code).reasons.map(reason => `${reason.kind} ${reason.target}`);
+  
+  it('should find nothing in pure code', () => {
+    const report = analyze([
+      'function sum(xs) {',
+      '  let total = 0;',
+      '  const copy = [...xs];',
+      '  copy.sort();',
+      '  for (const x of copy) total += x;',
+      '  return Math.max(total, 0);',
+      '}',
+      'class Point { constructor(x) { this.x = x; } }'
+    ].join('\n'));
+    
+    expect(report).toEqual({ score: 1, reasons: [] });
+  });
+  
+  it('should tell parameter and global mutation apart', () => {
+    expect(kinds('function f(xs) { xs.push(1); }')).toEqual(['parameter-mutation xs']);
+    expect(kinds('function f() { window.title = "x"; }')).toEqual(['global-mutation window']);
+    expect(kinds('function f() { cache = {}; }')).toEqual(['global-mutation cache']);
+    expect(kinds('function f(o) { ({ a: o.a } = o); }')).toEqual(['parameter-mutation o']);
+    expect(kinds('class C { n = 0; inc() { this.n++; } }')).toEqual(['parameter-mutation this']);
+  });
+  
+  it('should judge captured state relative to the analyzed unit', () => {
+    const sourceFile = ts.createSourceFile('temp.ts', 'let n = 0;\nfunction inc() { n++; }', ts.ScriptTarget.Latest, true);
+    
+    expect(analyzer.analyze(sourceFile).reasons).toEqual([]);
+    expect(analyzer.analyze(sourceFile.statements[1]).reasons.map(reason => reason.kind)).toEqual(['captured-mutation']);
+  });
+  
+  it('should report IO and nondeterminism', () => {
+    expect(kinds('console.log("hi");')).toEqual(['io console.log']);
+    expect(kinds("import * as fs from 'fs';\nfs.unlinkSync('a');")).toEqual(['io fs.unlinkSync']);
+    expect(kinds('const a = Math.random();\nconst b = Date.now();\nconst c = new Date();')).toEqual([
+      'nondeterminism Math.random',
+      'nondeterminism Date.now',
+      'nondeterminism Date'
+    ]);
+    expect(kinds('const d = new Date(0);')).toEqual([]);
+  });
+  
+  it('should respect shadowing declarations', () => {
+    expect(kinds('function f(console) { console.log(1); }')).toEqual([]);
+    expect(kinds('function f() { const Math = { random: () => 4 }; return Math.random(); }')).toEqual([]);
+  });
+  
+  it('should multiply the score per reason and keep spans', () => {
+    const report = analyze('function f(xs) {\n  xs.pop();\n  console.log(xs);\n}');
+    
+    expect(report.score).toBeCloseTo(0.8 * 0.5);
+    expect(report.reasons[0].span).toEqual({ start: { line: 2, column: 3 }, end: { line: 2, column: 11 } });
+  });
+  
+  it('should back the purity of hash results', () => {
+    const result = new ProteinHasher().computeHash('function f(xs) { xs.push(Math.random()); }');
+    
+    expect(result.impurities.map(reason => reason.kind)).toEqual(['parameter-mutation', 'nondeterminism']);
+    expect(result.purity).toBeCloseTo(0.8 * 0.7);
+  });
+});
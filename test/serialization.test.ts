@@ -0,0 +1,94 @@
+/**
+ * Tests for result serialization
+ */
+
+import {
+  ProteinHasher,
+  ProteinHashResult,
+  serializeResult,
+  deserializeResult,
+  serializeGraph,
+  deserializeGraph,
+  canonicalJson,
+  SerializationError,
+  RESULT_SCHEMA
+} from '../src';
+
+describe('serializeResult', () => {
+  const hasher = new ProteinHasher();
+  const code = [
+    'function memo(fn) {',
+    '  const cache = new Map();',
+    '  return (x) => cache.has(x) ? cache.get(x) : cache.set(x, fn(x)).get(x);',
+    '}'
+  ].join('\n');
+  
+  it('should round-trip a full result', () => {
+    const result = hasher.computeHash(code);
+    expect(result.topology).toBeDefined();
+    expect(result.consciousness).toBeDefined();
+    
+    expect(deserializeResult(serializeResult(result))).toEqual(result);
+  });
+  
+  it('should write canonical JSON', () => {
+    const json = serializeResult(new ProteinHasher({ includeMetadata: false }).computeHash(code));
+    
+    expect(json.startsWith('{"result":{"astHash":')).toBe(true);
+    expect(json.endsWith(',"schemaVersion":1}')).toBe(true);
+    expect(json).toBe(JSON.stringify(JSON.parse(json)));
+    expect(serializeResult(new ProteinHasher({ includeMetadata: false }).computeHash(code))).toBe(json);
+  });
+  
+  it('should reject other schema versions', () => {
+    const json = serializeResult(hasher.computeHash(code)).replace('"schemaVersion":1', '"schemaVersion":2');
+    expect(() => deserializeResult(json)).toThrow(SerializationError);
+    expect(() => deserializeResult(json)).toThrow(/schema version 2/);
+  });
+  
+  it('should validate against the schema', () => {
+    const valid = JSON.parse(serializeResult(hasher.computeHash(code)));
+    const broken = (change: (result: ProteinHashResult) => void) => {
+      const copy = JSON.parse(JSON.stringify(valid));
+      change(copy.result);
+      try {
+        deserializeResult(JSON.stringify(copy));
+      } catch (error) {
+        return (error as SerializationError).path;
+      }
+      return 'accepted';
+    };
+    
+    expect(broken(result => { Reflect.deleteProperty(result, 'lsh'); })).toBe('$.result');
+    expect(broken(result => { result.nodes = 1.5; })).toBe('$.result.nodes');
+    expect(broken(result => { Object.assign(result.topology!, { hasCycles: 'no' }); })).toBe('$.result.topology.hasCycles');
+    expect(broken(result => { Object.assign(result, { extra: true }); })).toBe('$.result');
+    expect(() => deserializeResult('{')).toThrow(SerializationError);
+    expect(() => deserializeResult(serializeGraph(hasher.buildGraph(code)))).toThrow(/Expected a serialized result/);
+  });
+  
+  it('should publish the schema', () => {
+    expect(RESULT_SCHEMA).toHaveProperty('$schema', 'http://json-schema.org/draft-07/schema#');
+  });
+});
+
+describe('serializeGraph', () => {
+  it('should round-trip a logical graph', () => {
+    const graph = new ProteinHasher().buildGraph('function f(a) { if (a) { return f(a - 1); } return 0; }');
+    const restored = deserializeGraph(serializeGraph(graph));
+    
+    expect(restored).toEqual(graph);
+    expect(Array.from(restored.nodes.keys())).toEqual(Array.from(graph.nodes.keys()));
+  });
+});
+
+describe('canonicalJson', () => {
+  it('should sort keys at every level', () => {
+    expect(canonicalJson({ b: 1, a: { d: [2, { f: 1, e: 0 }], c: undefined } })).toBe('{"a":{"d":[2,{"e":0,"f":1}]},"b":1}');
+  });
+  
+  it('should refuse values JSON cannot represent', () => {
+    expect(() => canonicalJson({ x: NaN })).toThrow(/\$\.x/);
+    expect(() => canonicalJson({ m: new Map() })).toThrow(/Map/);
+  });
+});
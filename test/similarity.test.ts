@@ -0,0 +1,75 @@
+/**
+ * Tests for similarity strategies
+ */
+
+import {
+  ProteinHasher,
+  SimilarityStrategy,
+  SIMILARITY_STRATEGIES,
+  compositeStrategy,
+  scoreBreakdown,
+  compareHashes,
+  computeSimilarity,
+  groupBySimilarity
+} from '../src';
+
+describe('similarity strategies', () => {
+  const add = 'function add(a, b) { return a + b; }';
+  const sum = 'function sum(x, y) { return x + y; }';
+  const log = 'function f(xs) { for (const x of xs) { if (x) console.log(x); } return xs.length; }';
+  
+  it('should keep cosine with consciousness resonance as the default', () => {
+    const hasher = new ProteinHasher();
+    const [a, b] = [hasher.computeHash(add), hasher.computeHash(log)];
+    const breakdown = scoreBreakdown(a, b);
+    
+    expect(breakdown.strategy).toBe('cosine');
+    expect(breakdown.consciousness).toBeDefined();
+    expect(computeSimilarity(add, log)).toBeCloseTo(computeSimilarity(add, log, { strategy: 'cosine' }));
+    expect(computeSimilarity(add, log, { consciousness: false })).toBeCloseTo(SIMILARITY_STRATEGIES.cosine.compare(a, b));
+  });
+  
+  it.each(Object.keys(SIMILARITY_STRATEGIES))('should score %s in 0..1 and renamed code as identical', strategy => {
+    const similar = computeSimilarity(add, sum, { strategy });
+    const different = computeSimilarity(add, log, { strategy, consciousness: false });
+    
+    expect(similar).toBeCloseTo(1);
+    expect(different).toBeGreaterThanOrEqual(0);
+    expect(different).toBeLessThan(1);
+  });
+  
+  it('should require graphs for graph strategies', () => {
+    const hasher = new ProteinHasher();
+    const [a, b] = [hasher.computeHash(add), hasher.computeHash(log)];
+    
+    expect(() => compareHashes(a, b, { strategy: 'wl-kernel' })).toThrow(/includeGraph/);
+    expect(() => computeSimilarity(add, log, { strategy: 'spectral' })).toThrow(/Unknown similarity strategy/);
+  });
+  
+  it('should blend strategies by normalized weight', () => {
+    const hasher = new ProteinHasher({ includeGraph: true });
+    const [a, b] = [hasher.computeHash(add), hasher.computeHash(log)];
+    const composite = compositeStrategy([
+      { strategy: 'euclidean', weight: 1 },
+      { strategy: SIMILARITY_STRATEGIES['label-jaccard'], weight: 3 }
+    ]);
+    
+    expect(composite.requiresGraph).toBe(true);
+    expect(composite.compare(a, b)).toBeCloseTo(
+      0.25 * SIMILARITY_STRATEGIES.euclidean.compare(a, b) + 0.75 * SIMILARITY_STRATEGIES['label-jaccard'].compare(a, b)
+    );
+    expect(() => compositeStrategy([])).toThrow(/at least one/);
+    expect(() => compositeStrategy([{ strategy: 'cosine', weight: 0 }])).toThrow(/positive/);
+  });
+  
+  it('should group with a custom strategy', () => {
+    const sameComplexity: SimilarityStrategy = {
+      name: 'same-complexity',
+      compare: (a, b) => (a.complexity === b.complexity ? 1 : 0)
+    };
+    const groups = groupBySimilarity([add, log, sum], 0.9, { strategy: sameComplexity, consciousness: false });
+    
+    expect(groups).toEqual([[add, sum], [log]]);
+    expect(groupBySimilarity([add, log, sum], 0.9, { strategy: 'wl-kernel' })).toEqual([[add, sum], [log]]);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Tests for the deterministic spectral toolkit
+ */
+
+import { ProteinHasher } from '../src';
+import {
+  WeightedEdge,
+  jacobiEigenvalues,
+  topEigenvalues,
+  sparseLaplacian,
+  csrToDense,
+  lanczosTopEigenvalues,
+  topSparseEigenvalues
+} from '../src/spectral';
+
+describe('jacobiEigenvalues', () => {
+  it('should return the exact spectrum of a path graph Laplacian', () => {
+    const laplacian = [
+      [1, -1, 0],
+      [-1, 2, -1],
+      [0, -1, 1]
+    ];
+    
+    const eigenvalues = topEigenvalues(laplacian, 3);
+    expect(eigenvalues[0]).toBeCloseTo(3, 10);
+    expect(eigenvalues[1]).toBeCloseTo(1, 10);
+    expect(eigenvalues[2]).toBeCloseTo(0, 10);
+  });
+  
+  it('should handle empty and diagonal matrices', () => {
+    expect(jacobiEigenvalues([])).toEqual([]);
+    expect(topEigenvalues([[2, 0], [0, 5]], 1)).toEqual([5]);
+  });
+});
+
+describe('phash reproducibility', () => {
+  const corpus = [
+    'function add(a, b) { return a + b; }',
+    'const double = x => x * 2;',
+    'function factorial(n) { return n <= 1 ? 1 : n * factorial(n - 1); }',
+    'class Stack { items = []; push(x) { this.items.push(x); } pop() { return this.items.pop(); } }',
+    'async function load(url) { const res = await fetch(url); if (!res.ok) throw new Error(); return res.json(); }',
+    'for (let i = 0; i < 10; i++) { while (i % 3) { i++; } }'
+  ];
+  
+  it('should produce byte-identical phashes and spectra across runs', () => {
+    const first = corpus.map(code => new ProteinHasher().computeHash(code));
+    const second = corpus.map(code => new ProteinHasher().computeHash(code));
+    
+    expect(second.map(r => r.phash)).toEqual(first.map(r => r.phash));
+    expect(second.map(r => r.eigenTop)).toEqual(first.map(r => r.eigenTop));
+  });
+});
+
+describe('sparse Laplacian', () => {
+  // Deterministic tree with a few extra chords, n nodes
+  const buildEdges = (n: number): WeightedEdge[] => {
+    const edges: WeightedEdge[] = [];
+    for (let i = 1; i < n; i++) {
+      edges.push({ from: i % 2 === 0 ? Math.floor(i / 3) : i - 1, to: i, weight: 1 + (i % 4) * 0.25 });
+    }
+    for (let i = 5; i < n; i += 11) {
+      edges.push({ from: i, to: Math.floor(i / 2), weight: 0.5 });
+    }
+    return edges;
+  };
+  
+  it('should match the dense Laplacian', () => {
+    const edges = buildEdges(20);
+    const csr = sparseLaplacian(20, edges);
+    const dense = csrToDense(csr);
+    
+    for (let i = 0; i < 20; i++) {
+      expect(dense[i].reduce((a, b) => a + b, 0)).toBeCloseTo(0, 12);
+      for (let j = 0; j < 20; j++) {
+        expect(dense[i][j]).toBe(dense[j][i]);
+      }
+    }
+  });
+  
+  it('should agree with Jacobi on the top eigenvalues', () => {
+    const csr = sparseLaplacian(200, buildEdges(200));
+    const expected = topEigenvalues(csrToDense(csr), 5);
+    const actual = lanczosTopEigenvalues(csr, 5);
+    
+    actual.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 8));
+  });
+  
+  it('should report repeated eigenvalues with multiplicity', () => {
+    // Two disjoint stars share their spectrum: every eigenvalue is doubled
+    const edges: WeightedEdge[] = [];
+    for (let leaf = 1; leaf < 100; leaf++) {
+      edges.push({ from: 0, to: leaf, weight: 1 });
+      edges.push({ from: 100, to: 100 + leaf, weight: 1 });
+    }
+    const csr = sparseLaplacian(200, edges);
+    const eigenvalues = topSparseEigenvalues(csr, 3);
+    
+    expect(eigenvalues[0]).toBeCloseTo(100, 8);
+    expect(eigenvalues[1]).toBeCloseTo(100, 8);
+    expect(eigenvalues[2]).toBeCloseTo(1, 8);
+  });
+});
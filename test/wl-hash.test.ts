@@ -0,0 +1,69 @@
+/**
+ * Tests for the Weisfeiler-Lehman fingerprint
+ */
+
+import { ProteinHasher, LogicalGraph, EdgeType, createHasher, parsePhash, wlHash } from '../src';
+import { sparseLaplacian, topSparseEigenvalues } from '../src/spectral';
+
+function graphOf(edges: string, type: EdgeType = 'structure', order: number[] = [0, 1, 2, 3, 4, 5]): LogicalGraph {
+  const graph: LogicalGraph = { nodes: new Map(), edges: [] };
+  for (const i of order) {
+    graph.nodes.set(`n${i}`, { id: `n${i}`, type: 'operation', label: 'Call', weight: 1 });
+  }
+  for (const pair of edges.split(' ')) {
+    const [from, to] = pair.split('-');
+    graph.edges.push({ from: `n${from}`, to: `n${to}`, type, weight: 1 });
+  }
+  return graph;
+}
+
+function spectrum(graph: LogicalGraph): number[] {
+  const index = new Map(Array.from(graph.nodes.keys(), (id, i) => [id, i]));
+  const edges = graph.edges.map(e => ({ from: index.get(e.from)!, to: index.get(e.to)!, weight: e.weight }));
+  return topSparseEigenvalues(sparseLaplacian(graph.nodes.size, edges), 6).map(v => Math.round(v * 1e6) / 1e6);
+}
+
+describe('wlHash', () => {
+  // A square and a triangle sharing a vertex vs. a different 7-edge graph with the same Laplacian spectrum
+  const squareTriangle = graphOf('0-1 0-2 1-3 2-3 3-4 3-5 4-5');
+  const cospectral = graphOf('0-3 1-2 1-3 1-4 2-5 3-5 4-5');
+  
+  it('should separate cospectral graphs', () => {
+    expect(spectrum(squareTriangle)).toEqual(spectrum(cospectral));
+    expect(wlHash(squareTriangle)).not.toBe(wlHash(cospectral));
+  });
+  
+  it('should not depend on node ids or insertion order', () => {
+    const shuffled = graphOf('5-1 5-2 1-3 2-3 3-4 3-0 4-0', 'structure', [3, 1, 4, 0, 5, 2]);
+    expect(wlHash(shuffled)).toBe(wlHash(squareTriangle));
+  });
+  
+  it('should use edge types as colors', () => {
+    expect(wlHash(graphOf('0-1 0-2 1-3 2-3 3-4 3-5 4-5', 'dataflow'))).not.toBe(wlHash(squareTriangle));
+  });
+});
+
+describe('WL fingerprint strategy', () => {
+  const code = 'function sum(list) { let total = 0; for (const x of list) { total += x; } return total; }';
+  
+  it('should be included in every result', () => {
+    expect(new ProteinHasher().computeHash(code).wlHash).toMatch(/^[0-9a-f]{16}$/);
+  });
+  
+  it('should back the phash when selected', () => {
+    const result = createHasher({ fingerprint: 'wl' }).computeHash(code);
+    expect(result.phash).toBe(`phash:v1:sha256:fwl:${result.wlHash}`);
+  });
+  
+  it('should ignore renaming', () => {
+    const hasher = createHasher({ fingerprint: 'wl' });
+    const renamed = 'function add(items) { let acc = 0; for (const v of items) { acc += v; } return acc; }';
+    expect(hasher.computeHash(renamed).phash).toBe(hasher.computeHash(code).phash);
+  });
+  
+  it('should encode refinement rounds in the prefix', () => {
+    const { phash } = createHasher({ fingerprint: 'wl', wlIterations: 5 }).computeHash(code);
+    expect(parsePhash(phash).settings).toEqual({ fingerprint: 'wl', wlIterations: 5 });
+    expect(() => createHasher({ wlIterations: 0 })).toThrow(/wlIterations/);
+  });
+});